@@ -0,0 +1,343 @@
+import { validateRecurrence } from './recurrence.js'
+import { DEFAULT_PROJECT_ICON, NO_PROJECT_GROUP } from './db/constants.js'
+import type {
+  WorkBackup,
+  WorkBackupComment,
+  WorkBackupGroupState,
+  WorkBackupSubItem,
+  WorkBackupTodo,
+  WorkProject,
+  WorkProjectStatus,
+  WorkSettingsUpdate,
+  WorkTodoPriority,
+  WorkTodoStatus,
+} from './types.js'
+
+export const BACKUP_FORMAT = 'work-manager-backup'
+
+/** Version written by work_backup_export; older versions are still accepted. */
+export const BACKUP_VERSION = 1
+
+const TODO_STATUSES: WorkTodoStatus[] = ['not_started', 'in_progress', 'completed', 'cancelled']
+const TODO_PRIORITIES: WorkTodoPriority[] = ['none', 'low', 'medium', 'high', 'urgent']
+const PROJECT_STATUSES: WorkProjectStatus[] = ['active', 'on_hold', 'done']
+
+/** Expected type of each setting in a backup. */
+const SETTING_TYPES: Record<
+  keyof WorkSettingsUpdate,
+  'number' | 'string' | 'boolean' | 'numbers'
+> = {
+  defaultReminderMinutes: 'number',
+  defaultReminders: 'numbers',
+  allDayReminderTime: 'string',
+  reminderLocale: 'string',
+  digestEnabled: 'boolean',
+  digestTime: 'string',
+  overdueFollowUpMinutes: 'number',
+  overdueFollowUpLimit: 'number',
+  timezone: 'string',
+  trashRetentionDays: 'number',
+}
+
+/** Settings that may be null. */
+const NULLABLE_SETTINGS = new Set<keyof WorkSettingsUpdate>([
+  'defaultReminderMinutes',
+  'allDayReminderTime',
+  'reminderLocale',
+  'digestTime',
+  'overdueFollowUpMinutes',
+  'timezone',
+  'trashRetentionDays',
+])
+
+type BackupCheck = { ok: true; backup: WorkBackup } | { ok: false; error: string }
+
+/** Thrown while reading a backup; the message names the invalid value. */
+class BackupError extends Error {}
+
+type BackupRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is BackupRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const readRecords = (backup: BackupRecord, key: string): BackupRecord[] => {
+  const value = backup[key] ?? []
+  if (!Array.isArray(value)) throw new BackupError(`${key} must be an array`)
+  return value.map((entry, index) => {
+    if (!isRecord(entry)) throw new BackupError(`${key}[${index}] must be an object`)
+    return entry
+  })
+}
+
+const readString = (record: BackupRecord, key: string, path: string): string => {
+  const value = record[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new BackupError(`${path}.${key} must be a non-empty string`)
+  }
+  return value
+}
+
+/** Reads a string that may be empty, like the date and time of a todo with a date-only dueAt. */
+const readText = (record: BackupRecord, key: string, path: string): string => {
+  const value = record[key]
+  if (typeof value !== 'string') throw new BackupError(`${path}.${key} must be a string`)
+  return value
+}
+
+const readOptionalString = (record: BackupRecord, key: string, path: string): string | null => {
+  const value = record[key]
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') throw new BackupError(`${path}.${key} must be a string or null`)
+  return value
+}
+
+const readDate = (record: BackupRecord, key: string, path: string): string => {
+  const value = readString(record, key, path)
+  if (Number.isNaN(Date.parse(value))) {
+    throw new BackupError(`${path}.${key} must be an ISO 8601 date`)
+  }
+  return value
+}
+
+const readOptionalDate = (record: BackupRecord, key: string, path: string): string | null => {
+  const value = readOptionalString(record, key, path)
+  if (value !== null && Number.isNaN(Date.parse(value))) {
+    throw new BackupError(`${path}.${key} must be an ISO 8601 date or null`)
+  }
+  return value
+}
+
+const readEnum = <T extends string>(
+  record: BackupRecord,
+  key: string,
+  path: string,
+  allowed: T[],
+  fallback?: T
+): T => {
+  const value = record[key] ?? fallback
+  if (!allowed.includes(value as T)) {
+    throw new BackupError(
+      `Invalid ${path}.${key} "${String(value)}". Allowed: ${allowed.join(', ')}`
+    )
+  }
+  return value as T
+}
+
+const readNumber = (record: BackupRecord, key: string, path: string, fallback: number): number => {
+  const value = record[key] ?? fallback
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new BackupError(`${path}.${key} must be a number`)
+  }
+  return value
+}
+
+const readOptionalNumber = (record: BackupRecord, key: string, path: string): number | null => {
+  const value = record[key]
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new BackupError(`${path}.${key} must be a number or null`)
+  }
+  return value
+}
+
+const readStringList = (record: BackupRecord, key: string, path: string): string[] => {
+  const value = record[key] ?? []
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    throw new BackupError(`${path}.${key} must be an array of strings`)
+  }
+  return value as string[]
+}
+
+const readProject = (record: BackupRecord, path: string): WorkProject => ({
+  id: readString(record, 'id', path),
+  name: readString(record, 'name', path),
+  description: readOptionalString(record, 'description', path) ?? undefined,
+  icon: readOptionalString(record, 'icon', path) || DEFAULT_PROJECT_ICON,
+  color: readOptionalString(record, 'color', path),
+  status: readEnum(record, 'status', path, PROJECT_STATUSES, 'active'),
+  startDate: readOptionalString(record, 'startDate', path),
+  deadline: readOptionalString(record, 'deadline', path),
+  archivedAt: readOptionalDate(record, 'archivedAt', path),
+  createdAt: readDate(record, 'createdAt', path),
+  updatedAt: readDate(record, 'updatedAt', path),
+})
+
+const readTodo = (record: BackupRecord, path: string): WorkBackupTodo => {
+  let reminders: number[] | null = null
+  if (record.reminders !== undefined && record.reminders !== null) {
+    if (
+      !Array.isArray(record.reminders) ||
+      record.reminders.some((entry) => typeof entry !== 'number' || entry < 0)
+    ) {
+      throw new BackupError(`${path}.reminders must be an array of minutes or null`)
+    }
+    reminders = record.reminders as number[]
+  }
+
+  const recurrence = validateRecurrence(record.recurrence ?? null)
+  if (!recurrence.ok) throw new BackupError(`${path}.recurrence: ${recurrence.error}`)
+
+  return {
+    id: readString(record, 'id', path),
+    projectId: readOptionalString(record, 'projectId', path),
+    title: readString(record, 'title', path),
+    description: readOptionalString(record, 'description', path),
+    icon: readString(record, 'icon', path),
+    status: readEnum(record, 'status', path, TODO_STATUSES),
+    priority: readEnum(record, 'priority', path, TODO_PRIORITIES, 'none'),
+    dueAt: readDate(record, 'dueAt', path),
+    date: readText(record, 'date', path),
+    time: readText(record, 'time', path),
+    allDay: record.allDay === true,
+    reminderMinutes: readOptionalNumber(record, 'reminderMinutes', path),
+    reminders,
+    recurrence: recurrence.recurrence ?? null,
+    nextOccurrenceId: readOptionalString(record, 'nextOccurrenceId', path),
+    snoozedUntil: readOptionalDate(record, 'snoozedUntil', path),
+    overdueFollowUps: readNumber(record, 'overdueFollowUps', path, 0),
+    icalUid: readOptionalString(record, 'icalUid', path),
+    tags: readStringList(record, 'tags', path),
+    blockedBy: readStringList(record, 'blockedBy', path),
+    createdAt: readDate(record, 'createdAt', path),
+    updatedAt: readDate(record, 'updatedAt', path),
+  }
+}
+
+const readSubItem = (record: BackupRecord, path: string): WorkBackupSubItem => ({
+  id: readString(record, 'id', path),
+  todoId: readString(record, 'todoId', path),
+  text: readString(record, 'text', path),
+  completedAt: readOptionalDate(record, 'completedAt', path),
+  sortOrder: readNumber(record, 'sortOrder', path, 0),
+  createdAt: readDate(record, 'createdAt', path),
+  updatedAt: readDate(record, 'updatedAt', path),
+})
+
+const readComment = (record: BackupRecord, path: string): WorkBackupComment => ({
+  id: readString(record, 'id', path),
+  todoId: readString(record, 'todoId', path),
+  text: readString(record, 'text', path),
+  createdAt: readDate(record, 'createdAt', path),
+})
+
+const readGroupState = (record: BackupRecord, path: string): WorkBackupGroupState => ({
+  groupId: readString(record, 'groupId', path),
+  collapsed: record.collapsed === true,
+})
+
+const readSettings = (value: unknown): WorkSettingsUpdate => {
+  if (value === undefined) return {}
+  if (!isRecord(value)) throw new BackupError('settings must be an object')
+
+  const settings: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    const type = SETTING_TYPES[key as keyof WorkSettingsUpdate]
+    if (!type) continue
+    if (entry === null && NULLABLE_SETTINGS.has(key as keyof WorkSettingsUpdate)) {
+      settings[key] = null
+      continue
+    }
+    const valid =
+      type === 'numbers'
+        ? Array.isArray(entry) && entry.every((item) => typeof item === 'number')
+        : typeof entry === type
+    if (!valid) throw new BackupError(`settings.${key} has the wrong type`)
+    settings[key] = entry
+  }
+  return settings as WorkSettingsUpdate
+}
+
+/**
+ * Checks that every ID is unique within its kind and that references point at records in
+ * the backup.
+ */
+const checkReferences = (backup: WorkBackup): void => {
+  const unique = (kind: string, ids: string[]): Set<string> => {
+    const set = new Set<string>()
+    for (const id of ids) {
+      if (set.has(id)) throw new BackupError(`Duplicate ${kind} id "${id}"`)
+      set.add(id)
+    }
+    return set
+  }
+
+  const projectIds = unique('project', backup.projects.map((project) => project.id))
+  const todoIds = unique('todo', backup.todos.map((todo) => todo.id))
+  unique('subitem', backup.subItems.map((subItem) => subItem.id))
+  unique('comment', backup.comments.map((comment) => comment.id))
+
+  for (const todo of backup.todos) {
+    if (todo.projectId && !projectIds.has(todo.projectId)) {
+      throw new BackupError(`Todo "${todo.id}" refers to unknown project "${todo.projectId}"`)
+    }
+    const blocker = todo.blockedBy.find((id) => !todoIds.has(id) || id === todo.id)
+    if (blocker) throw new BackupError(`Todo "${todo.id}" is blocked by unknown todo "${blocker}"`)
+  }
+  for (const entry of [...backup.subItems, ...backup.comments]) {
+    if (!todoIds.has(entry.todoId)) {
+      throw new BackupError(`"${entry.id}" belongs to unknown todo "${entry.todoId}"`)
+    }
+  }
+  for (const state of backup.groupStates) {
+    if (state.groupId !== NO_PROJECT_GROUP && !projectIds.has(state.groupId)) {
+      throw new BackupError(`Group state refers to unknown project "${state.groupId}"`)
+    }
+  }
+}
+
+/**
+ * Validates a backup document (parsed JSON or its text) and normalizes it to the current
+ * format, filling in defaults for fields added after older versions.
+ */
+export const validateBackup = (value: unknown): BackupCheck => {
+  try {
+    let document = value
+    if (typeof document === 'string') {
+      try {
+        document = JSON.parse(document)
+      } catch {
+        return { ok: false, error: 'Backup is not valid JSON' }
+      }
+    }
+    if (!isRecord(document) || document.format !== BACKUP_FORMAT) {
+      return { ok: false, error: `Not a Work Manager backup (format must be "${BACKUP_FORMAT}")` }
+    }
+    const version = document.version
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      return { ok: false, error: 'Backup version must be a positive integer' }
+    }
+    if (version > BACKUP_VERSION) {
+      return {
+        ok: false,
+        error: `Backup version ${version} is newer than this extension supports (${BACKUP_VERSION})`,
+      }
+    }
+
+    const backup: WorkBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: readDate(document, 'exportedAt', 'backup'),
+      projects: readRecords(document, 'projects').map((record, index) =>
+        readProject(record, `projects[${index}]`)
+      ),
+      todos: readRecords(document, 'todos').map((record, index) =>
+        readTodo(record, `todos[${index}]`)
+      ),
+      subItems: readRecords(document, 'subItems').map((record, index) =>
+        readSubItem(record, `subItems[${index}]`)
+      ),
+      comments: readRecords(document, 'comments').map((record, index) =>
+        readComment(record, `comments[${index}]`)
+      ),
+      groupStates: readRecords(document, 'groupStates').map((record, index) =>
+        readGroupState(record, `groupStates[${index}]`)
+      ),
+      settings: readSettings(document.settings),
+    }
+    checkReferences(backup)
+    return { ok: true, backup }
+  } catch (error) {
+    if (error instanceof BackupError) return { ok: false, error: error.message }
+    throw error
+  }
+}
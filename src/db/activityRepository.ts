@@ -0,0 +1,179 @@
+import type {
+  ListActivityOptions,
+  WorkActivity,
+  WorkActivityAction,
+  WorkActivityEntityType,
+  WorkActivitySource,
+  WorkFieldChange,
+  WorkPage,
+} from '../types.js'
+import { decodeCursor, encodeCursor, generateId, resolvePage } from './utils.js'
+import type { WorkDb } from './workDb.js'
+
+interface ActivityRow {
+  seq: number
+  id: string
+  entity_type: WorkActivityEntityType
+  entity_id: string
+  action: WorkActivityAction
+  subject_id: string | null
+  changes: string
+  source: WorkActivitySource
+  created_at: string
+}
+
+export interface ActivityEntry {
+  entityType: WorkActivityEntityType
+  entityId: string
+  action: WorkActivityAction
+  subjectId?: string | null
+  changes?: WorkFieldChange[]
+}
+
+const parseChanges = (value: string): WorkFieldChange[] => {
+  try {
+    const parsed = JSON.parse(value) as unknown
+    return Array.isArray(parsed) ? (parsed as WorkFieldChange[]) : []
+  } catch {
+    return []
+  }
+}
+
+/** Treats missing values and null alike so optional fields do not show up as changes. */
+const normalizeValue = (value: unknown): unknown => (value === undefined ? null : value)
+
+/**
+ * Lists the fields that differ between two versions of a record.
+ */
+export const diffFields = <T extends object>(
+  before: T,
+  after: T,
+  fields: Array<keyof T & string>
+): WorkFieldChange[] => {
+  const changes: WorkFieldChange[] = []
+  for (const field of fields) {
+    const from = normalizeValue(before[field])
+    const to = normalizeValue(after[field])
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to })
+    }
+  }
+  return changes
+}
+
+/**
+ * Lists the fields of a new record that have a value, as changes from null.
+ */
+export const initialFields = <T extends object>(
+  record: T,
+  fields: Array<keyof T & string>
+): WorkFieldChange[] =>
+  fields
+    .filter((field) => {
+      const value = normalizeValue(record[field])
+      return value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+    })
+    .map((field) => ({ field, from: null, to: record[field] }))
+
+export class ActivityRepository {
+  private readonly db: WorkDb
+
+  constructor(db: WorkDb) {
+    this.db = db
+  }
+
+  /**
+   * Appends an entry to the activity log, attributed to the source of the current WorkDb.
+   * Called by the other repositories inside the transaction of the change it describes.
+   */
+  async record(entry: ActivityEntry): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO ext_work_manager_activity (id, entity_type, entity_id, action, subject_id, changes, source, created_at, user_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        generateId('act'),
+        entry.entityType,
+        entry.entityId,
+        entry.action,
+        entry.subjectId ?? null,
+        JSON.stringify(entry.changes ?? []),
+        this.db.getSource(),
+        new Date().toISOString(),
+        this.db.getUserId(),
+      ]
+    )
+  }
+
+  /**
+   * Lists activity newest first, one page at a time.
+   */
+  async list(options: ListActivityOptions = {}): Promise<WorkPage<WorkActivity>> {
+    await this.db.initialize()
+
+    const { entityType, entityId, actions, since, cursor } = options
+    const { limit } = resolvePage(options.limit, undefined, 50)
+    const userId = this.db.getUserId()
+    const params: unknown[] = [userId]
+    const conditions: string[] = ['user_id = ?']
+
+    if (entityType) {
+      conditions.push('entity_type = ?')
+      params.push(entityType)
+    }
+
+    if (entityId) {
+      conditions.push('entity_id = ?')
+      params.push(entityId)
+    }
+
+    if (actions && actions.length > 0) {
+      conditions.push(`action IN (${actions.map(() => '?').join(', ')})`)
+      params.push(...actions)
+    }
+
+    if (since) {
+      conditions.push('julianday(created_at) >= julianday(?)')
+      params.push(since)
+    }
+
+    const [{ total }] = await this.db.execute<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM ext_work_manager_activity WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    if (cursor) {
+      const [cursorSeq] = decodeCursor(cursor, 'activity', 1)
+      conditions.push('rowid < ?')
+      params.push(cursorSeq)
+    }
+
+    const rows = await this.db.execute<ActivityRow>(
+      `SELECT rowid AS seq, id, entity_type, entity_id, action, subject_id, changes, source, created_at
+       FROM ext_work_manager_activity
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY rowid DESC
+       LIMIT ?`,
+      [...params, limit + 1]
+    )
+
+    const hasMore = rows.length > limit
+    const pageRows = rows.slice(0, limit)
+    const last = pageRows[pageRows.length - 1]
+
+    return {
+      items: pageRows.map((row) => ({
+        id: row.id,
+        entityType: row.entity_type,
+        entityId: row.entity_id,
+        action: row.action,
+        subjectId: row.subject_id,
+        changes: parseChanges(row.changes),
+        source: row.source,
+        createdAt: row.created_at,
+      })),
+      total: Number(total ?? 0),
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor('activity', [last.seq]) : null,
+    }
+  }
+}
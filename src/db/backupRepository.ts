@@ -0,0 +1,369 @@
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../backup.js'
+import type {
+  WorkBackup,
+  WorkBackupImportResult,
+  WorkBackupMode,
+  WorkBackupTodo,
+  WorkProject,
+  WorkTodo,
+} from '../types.js'
+import type { ActivityRepository } from './activityRepository.js'
+import { NO_PROJECT_GROUP } from './constants.js'
+import type { ProjectsRepository } from './projectsRepository.js'
+import type { SettingsRepository } from './settingsRepository.js'
+import type { TagsRepository } from './tagsRepository.js'
+import type { TodosRepository } from './todosRepository.js'
+import { generateId } from './utils.js'
+import type { WorkDb } from './workDb.js'
+
+const PAGE_SIZE = 500
+
+/** Tables holding a user's workspace, children before parents. */
+const WORKSPACE_TABLES = [
+  'ext_work_manager_comments',
+  'ext_work_manager_subitems',
+  'ext_work_manager_todo_tags',
+  'ext_work_manager_todo_dependencies',
+  'ext_work_manager_todos',
+  'ext_work_manager_tags',
+  'ext_work_manager_projects',
+  'ext_work_manager_group_state',
+]
+
+const toBackupTodo = (
+  todo: WorkTodo,
+  icalUid: string | null,
+  blockedBy: string[]
+): WorkBackupTodo => ({
+  id: todo.id,
+  projectId: todo.projectId ?? null,
+  title: todo.title,
+  description: todo.description ?? null,
+  icon: todo.icon,
+  status: todo.status,
+  priority: todo.priority,
+  dueAt: todo.dueAt,
+  date: todo.date,
+  time: todo.time,
+  allDay: todo.allDay,
+  reminderMinutes: todo.reminderMinutes ?? null,
+  reminders: todo.reminders ?? null,
+  recurrence: todo.recurrence ?? null,
+  nextOccurrenceId: todo.nextOccurrenceId ?? null,
+  snoozedUntil: todo.snoozedUntil ?? null,
+  overdueFollowUps: todo.overdueFollowUps ?? 0,
+  icalUid,
+  tags: todo.tags ?? [],
+  blockedBy,
+  createdAt: todo.createdAt,
+  updatedAt: todo.updatedAt,
+})
+
+export class BackupRepository {
+  private readonly db: WorkDb
+  private readonly projects: ProjectsRepository
+  private readonly todos: TodosRepository
+  private readonly tags: TagsRepository
+  private readonly settings: SettingsRepository
+  private readonly activity: ActivityRepository
+
+  constructor(
+    db: WorkDb,
+    projects: ProjectsRepository,
+    todos: TodosRepository,
+    tags: TagsRepository,
+    settings: SettingsRepository,
+    activity: ActivityRepository
+  ) {
+    this.db = db
+    this.projects = projects
+    this.todos = todos
+    this.tags = tags
+    this.settings = settings
+    this.activity = activity
+  }
+
+  /**
+   * Collects the user's projects, todos, subitems, comments, group state and settings.
+   * Trashed items and the activity log are left out.
+   */
+  async export(): Promise<WorkBackup> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const projects: WorkProject[] = []
+    let cursor: string | undefined
+    do {
+      const page = await this.projects.list({ includeArchived: true, limit: PAGE_SIZE, cursor })
+      projects.push(...page.items)
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+
+    const todos: WorkTodo[] = []
+    do {
+      const page = await this.todos.list({ includeArchived: true, limit: PAGE_SIZE, cursor })
+      todos.push(...page.items)
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+    const todoIds = new Set(todos.map((todo) => todo.id))
+
+    const icalUids = await this.db.execute<{ id: string; ical_uid: string }>(
+      `SELECT id, ical_uid FROM ext_work_manager_todos
+       WHERE user_id = ? AND deleted_at IS NULL AND ical_uid IS NOT NULL`,
+      [userId]
+    )
+    const icalUidById = new Map(icalUids.map((row) => [row.id, row.ical_uid]))
+
+    const dependencies = await this.db.execute<{ todo_id: string; depends_on_id: string }>(
+      `SELECT todo_id, depends_on_id FROM ext_work_manager_todo_dependencies WHERE user_id = ?`,
+      [userId]
+    )
+    const blockedByTodo = new Map<string, string[]>()
+    for (const row of dependencies) {
+      if (!todoIds.has(row.todo_id) || !todoIds.has(row.depends_on_id)) continue
+      blockedByTodo.set(row.todo_id, [...(blockedByTodo.get(row.todo_id) ?? []), row.depends_on_id])
+    }
+
+    const subItems = await this.db.execute<{
+      id: string
+      todo_id: string
+      text: string
+      completed_at: string | null
+      sort_order: number
+      created_at: string
+      updated_at: string
+    }>(
+      `SELECT id, todo_id, text, completed_at, sort_order, created_at, updated_at
+       FROM ext_work_manager_subitems
+       WHERE user_id = ?
+       ORDER BY todo_id ASC, sort_order ASC, created_at ASC`,
+      [userId]
+    )
+
+    const comments = await this.db.execute<{
+      id: string
+      todo_id: string
+      text: string
+      created_at: string
+    }>(
+      `SELECT id, todo_id, text, created_at
+       FROM ext_work_manager_comments
+       WHERE user_id = ?
+       ORDER BY todo_id ASC, created_at ASC`,
+      [userId]
+    )
+
+    const projectIds = new Set(projects.map((project) => project.id))
+    const groupStates = await this.db.execute<{ group_id: string; collapsed: number }>(
+      `SELECT group_id, collapsed FROM ext_work_manager_group_state WHERE user_id = ?`,
+      [userId]
+    )
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      projects,
+      todos: todos.map((todo) =>
+        toBackupTodo(todo, icalUidById.get(todo.id) ?? null, blockedByTodo.get(todo.id) ?? [])
+      ),
+      subItems: subItems
+        .filter((row) => todoIds.has(row.todo_id))
+        .map((row) => ({
+          id: row.id,
+          todoId: row.todo_id,
+          text: row.text,
+          completedAt: row.completed_at,
+          sortOrder: row.sort_order,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        })),
+      comments: comments
+        .filter((row) => todoIds.has(row.todo_id))
+        .map((row) => ({
+          id: row.id,
+          todoId: row.todo_id,
+          text: row.text,
+          createdAt: row.created_at,
+        })),
+      groupStates: groupStates
+        .filter((row) => row.group_id === NO_PROJECT_GROUP || projectIds.has(row.group_id))
+        .map((row) => ({ groupId: row.group_id, collapsed: !!row.collapsed })),
+      settings: await this.settings.get(),
+    }
+  }
+
+  /**
+   * Imports a validated backup in one transaction. `merge` adds it to the workspace;
+   * `replace` first removes the user's projects, todos (including the trash) and tags, and
+   * also restores the settings. Records whose ID is already taken get a new ID, and
+   * references to them follow.
+   */
+  async import(backup: WorkBackup, mode: WorkBackupMode): Promise<WorkBackupImportResult> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const removedTodoIds = mode === 'replace' ? await this.clear() : []
+      let remapped = 0
+
+      const allocate = async (table: string, id: string, prefix: string): Promise<string> => {
+        const rows = await this.db.execute<{ id: string }>(`SELECT id FROM ${table} WHERE id = ?`, [
+          id,
+        ])
+        if (rows.length === 0) return id
+        remapped++
+        return generateId(prefix)
+      }
+
+      const projectIds = new Map<string, string>()
+      for (const project of backup.projects) {
+        const id = await allocate('ext_work_manager_projects', project.id, 'proj')
+        projectIds.set(project.id, id)
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_projects (id, name, description, icon, color, status, start_date, deadline, archived_at, created_at, updated_at, user_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id,
+            project.name,
+            project.description ?? null,
+            project.icon,
+            project.color,
+            project.status,
+            project.startDate,
+            project.deadline,
+            project.archivedAt ?? null,
+            project.createdAt,
+            project.updatedAt,
+            userId,
+          ]
+        )
+        await this.activity.record({ entityType: 'project', entityId: id, action: 'created' })
+      }
+
+      const todoIds = new Map<string, string>()
+      for (const todo of backup.todos) {
+        todoIds.set(todo.id, await allocate('ext_work_manager_todos', todo.id, 'todo'))
+      }
+
+      for (const todo of backup.todos) {
+        const id = todoIds.get(todo.id) as string
+        const nextOccurrenceId = todo.nextOccurrenceId
+          ? todoIds.get(todo.nextOccurrenceId) ?? null
+          : null
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_todos (
+            id, project_id, title, description, icon, status, priority, due_at, date, time, all_day, reminder_minutes, reminders, recurrence, next_occurrence_id, snoozed_until, overdue_follow_ups, ical_uid, created_at, updated_at, user_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id,
+            todo.projectId ? projectIds.get(todo.projectId) ?? null : null,
+            todo.title,
+            todo.description,
+            todo.icon,
+            todo.status,
+            todo.priority,
+            todo.dueAt,
+            todo.date,
+            todo.time,
+            todo.allDay ? 1 : 0,
+            todo.reminderMinutes,
+            todo.reminders ? JSON.stringify(todo.reminders) : null,
+            todo.recurrence ? JSON.stringify(todo.recurrence) : null,
+            nextOccurrenceId,
+            todo.snoozedUntil,
+            todo.overdueFollowUps,
+            todo.icalUid,
+            todo.createdAt,
+            todo.updatedAt,
+            userId,
+          ]
+        )
+        if (todo.tags.length > 0) await this.tags.setForTodo(id, todo.tags)
+        await this.activity.record({ entityType: 'todo', entityId: id, action: 'created' })
+      }
+
+      const now = new Date().toISOString()
+      for (const todo of backup.todos) {
+        for (const blockerId of todo.blockedBy) {
+          await this.db.execute(
+            `INSERT OR IGNORE INTO ext_work_manager_todo_dependencies (todo_id, depends_on_id, user_id, created_at)
+             VALUES (?, ?, ?, ?)`,
+            [todoIds.get(todo.id), todoIds.get(blockerId), userId, now]
+          )
+        }
+      }
+
+      for (const subItem of backup.subItems) {
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_subitems (id, todo_id, text, completed_at, sort_order, created_at, updated_at, user_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            await allocate('ext_work_manager_subitems', subItem.id, 'sub'),
+            todoIds.get(subItem.todoId),
+            subItem.text,
+            subItem.completedAt,
+            subItem.sortOrder,
+            subItem.createdAt,
+            subItem.updatedAt,
+            userId,
+          ]
+        )
+      }
+
+      for (const comment of backup.comments) {
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_comments (id, todo_id, text, created_at, user_id)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            await allocate('ext_work_manager_comments', comment.id, 'comment'),
+            todoIds.get(comment.todoId),
+            comment.text,
+            comment.createdAt,
+            userId,
+          ]
+        )
+      }
+
+      for (const state of backup.groupStates) {
+        const groupId =
+          state.groupId === NO_PROJECT_GROUP ? NO_PROJECT_GROUP : projectIds.get(state.groupId)
+        if (!groupId) continue
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_group_state (group_id, collapsed, updated_at, user_id)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(group_id, user_id) DO UPDATE SET collapsed = excluded.collapsed, updated_at = excluded.updated_at`,
+          [groupId, state.collapsed ? 1 : 0, now, userId]
+        )
+      }
+
+      if (mode === 'replace') {
+        await this.settings.save(backup.settings)
+      }
+
+      return {
+        mode,
+        projects: backup.projects.length,
+        todos: backup.todos.length,
+        subItems: backup.subItems.length,
+        comments: backup.comments.length,
+        remapped,
+        removedTodoIds,
+      }
+    })
+  }
+
+  /**
+   * Removes the user's workspace, trash included.
+   * @returns The IDs of the removed todos
+   */
+  private async clear(): Promise<string[]> {
+    const userId = this.db.getUserId()
+    const todos = await this.db.execute<{ id: string }>(
+      `SELECT id FROM ext_work_manager_todos WHERE user_id = ?`,
+      [userId]
+    )
+    for (const table of WORKSPACE_TABLES) {
+      await this.db.execute(`DELETE FROM ${table} WHERE user_id = ?`, [userId])
+    }
+    return todos.map((todo) => todo.id)
+  }
+}
@@ -1,56 +1,90 @@
 import type { WorkComment, WorkCommentInput } from '../types.js'
+import type { ActivityRepository } from './activityRepository.js'
 import { generateId } from './utils.js'
 import type { WorkDb } from './workDb.js'
 
 export class CommentsRepository {
   private readonly db: WorkDb
+  private readonly activity: ActivityRepository
 
-  constructor(db: WorkDb) {
+  constructor(db: WorkDb, activity: ActivityRepository) {
     this.db = db
+    this.activity = activity
   }
 
   async add(input: WorkCommentInput): Promise<WorkComment> {
-    await this.db.initialize()
+    return this.db.transaction(async () => {
+      if (!input.todoId || !input.text) {
+        throw new Error('Todo id and text are required')
+      }
 
-    if (!input.todoId || !input.text) {
-      throw new Error('Todo id and text are required')
-    }
+      const createdAt = input.createdAt ?? new Date().toISOString()
+      const commentId = generateId('comment')
+      const userId = this.db.getUserId()
 
-    const createdAt = input.createdAt ?? new Date().toISOString()
-    const commentId = generateId('comment')
-    const userId = this.db.getUserId()
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_comments (id, todo_id, text, created_at, user_id)
+         VALUES (?, ?, ?, ?, ?)`,
+        [commentId, input.todoId, input.text, createdAt, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: input.todoId,
+        action: 'comment_added',
+        subjectId: commentId,
+        changes: [{ field: 'text', from: null, to: input.text }],
+      })
 
-    await this.db.execute(
-      `INSERT INTO ext_work_manager_comments (id, todo_id, text, created_at, user_id)
-       VALUES (?, ?, ?, ?, ?)`,
-      [commentId, input.todoId, input.text, createdAt, userId]
-    )
+      return {
+        id: commentId,
+        todoId: input.todoId,
+        text: input.text,
+        createdAt,
+      }
+    })
+  }
 
-    return {
-      id: commentId,
-      todoId: input.todoId,
-      text: input.text,
-      createdAt,
+  /**
+   * Adds comments to a todo. Runs inside the caller's transaction and leaves recording the
+   * activity to it.
+   */
+  async append(todoId: string, texts: string[]): Promise<void> {
+    const createdAt = new Date().toISOString()
+    const userId = this.db.getUserId()
+    for (const text of texts) {
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_comments (id, todo_id, text, created_at, user_id)
+         VALUES (?, ?, ?, ?, ?)`,
+        [generateId('comment'), todoId, text, createdAt, userId]
+      )
     }
   }
 
   async delete(todoId: string, commentId: string): Promise<boolean> {
-    await this.db.initialize()
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ text: string }>(
+        `SELECT text FROM ext_work_manager_comments WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [commentId, todoId, userId]
+      )
 
-    const userId = this.db.getUserId()
-    const rows = await this.db.execute<{ id: string }>(
-      `SELECT id FROM ext_work_manager_comments WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [commentId, todoId, userId]
-    )
+      const row = rows[0]
+      if (!row) return false
 
-    if (rows.length === 0) return false
-
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_comments WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [commentId, todoId, userId]
-    )
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_comments WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [commentId, todoId, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'comment_deleted',
+        subjectId: commentId,
+        changes: [{ field: 'text', from: row.text, to: null }],
+      })
 
-    return true
+      return true
+    })
   }
 
   async list(todoId: string): Promise<WorkComment[]> {
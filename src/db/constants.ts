@@ -1 +1,17 @@
+import type { WorkTodoPriority } from '../types.js'
+
 export const NO_PROJECT_GROUP = 'no-project'
+
+export const DEFAULT_PROJECT_ICON = 'folder-01'
+
+/** Most rows a list call returns per page. */
+export const MAX_PAGE_SIZE = 500
+
+/** Sort rank per priority; higher is more important. */
+export const PRIORITY_RANK: Record<WorkTodoPriority, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  urgent: 4,
+}
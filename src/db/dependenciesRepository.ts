@@ -0,0 +1,188 @@
+import type { ActivityRepository } from './activityRepository.js'
+import type { WorkDb } from './workDb.js'
+
+/** Blockers that no longer hold up their dependents: closed or in the trash. */
+const ACTIVE_BLOCKER_SQL = `t.status NOT IN ('completed', 'cancelled') AND t.deleted_at IS NULL`
+
+export interface BlockerSummary {
+  id: string
+  title: string
+  status: string
+}
+
+export class DependenciesRepository {
+  private readonly db: WorkDb
+  private readonly activity: ActivityRepository
+
+  constructor(db: WorkDb, activity: ActivityRepository) {
+    this.db = db
+    this.activity = activity
+  }
+
+  /**
+   * Records that `todoId` cannot be completed before `blockedById`.
+   * @returns false if the dependency already existed
+   * @throws Error if either todo does not exist or the dependency would create a cycle
+   */
+  async add(todoId: string, blockedById: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      if (todoId === blockedById) {
+        throw new Error('A todo cannot depend on itself')
+      }
+
+      const userId = this.db.getUserId()
+      const todos = await this.db.execute<{ id: string }>(
+        `SELECT id FROM ext_work_manager_todos
+         WHERE id IN (?, ?) AND user_id = ? AND deleted_at IS NULL`,
+        [todoId, blockedById, userId]
+      )
+      if (!todos.some((todo) => todo.id === todoId)) throw new Error('Todo not found')
+      if (!todos.some((todo) => todo.id === blockedById)) throw new Error('Blocking todo not found')
+
+      const existing = await this.listBlockerIds(todoId)
+      if (existing.includes(blockedById)) return false
+
+      if (await this.dependsOn(blockedById, todoId)) {
+        throw new Error('Dependency would create a cycle')
+      }
+
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_todo_dependencies (todo_id, depends_on_id, user_id, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [todoId, blockedById, userId, new Date().toISOString()]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'updated',
+        changes: [{ field: 'blockedBy', from: existing, to: [...existing, blockedById] }],
+      })
+
+      return true
+    })
+  }
+
+  async remove(todoId: string, blockedById: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const existing = await this.listBlockerIds(todoId)
+      if (!existing.includes(blockedById)) return false
+
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_todo_dependencies
+         WHERE todo_id = ? AND depends_on_id = ? AND user_id = ?`,
+        [todoId, blockedById, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'updated',
+        changes: [
+          {
+            field: 'blockedBy',
+            from: existing,
+            to: existing.filter((id) => id !== blockedById),
+          },
+        ],
+      })
+
+      return true
+    })
+  }
+
+  /**
+   * Returns the IDs of the todos a todo depends on, whatever their status.
+   */
+  async listBlockerIds(todoId: string): Promise<string[]> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<{ depends_on_id: string }>(
+      `SELECT depends_on_id FROM ext_work_manager_todo_dependencies
+       WHERE todo_id = ? AND user_id = ?
+       ORDER BY created_at ASC`,
+      [todoId, userId]
+    )
+
+    return rows.map((row) => row.depends_on_id)
+  }
+
+  /**
+   * Returns the blockers of a todo that are neither completed nor cancelled.
+   */
+  async listActiveBlockers(todoId: string): Promise<BlockerSummary[]> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    return this.db.execute<BlockerSummary>(
+      `SELECT t.id, t.title, t.status
+       FROM ext_work_manager_todo_dependencies d
+       JOIN ext_work_manager_todos t ON t.id = d.depends_on_id AND t.user_id = d.user_id
+       WHERE d.todo_id = ? AND d.user_id = ? AND ${ACTIVE_BLOCKER_SQL}
+       ORDER BY t.due_at ASC`,
+      [todoId, userId]
+    )
+  }
+
+  /**
+   * Returns the IDs of the given todos that have at least one active blocker.
+   * Without todo IDs, checks every todo of the user.
+   */
+  async listBlockedTodoIds(todoIds?: string[]): Promise<Set<string>> {
+    await this.db.initialize()
+
+    if (todoIds && todoIds.length === 0) return new Set()
+
+    const userId = this.db.getUserId()
+    const params: unknown[] = [userId]
+    let filter = ''
+    if (todoIds) {
+      filter = ` AND d.todo_id IN (${todoIds.map(() => '?').join(', ')})`
+      params.push(...todoIds)
+    }
+
+    const rows = await this.db.execute<{ todo_id: string }>(
+      `SELECT DISTINCT d.todo_id
+       FROM ext_work_manager_todo_dependencies d
+       JOIN ext_work_manager_todos t ON t.id = d.depends_on_id AND t.user_id = d.user_id
+       WHERE d.user_id = ? AND ${ACTIVE_BLOCKER_SQL}${filter}`,
+      params
+    )
+
+    return new Set(rows.map((row) => row.todo_id))
+  }
+
+  /**
+   * Removes every dependency from or to a todo, e.g. when the todo is deleted.
+   */
+  async clearTodo(todoId: string): Promise<void> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    await this.db.execute(
+      `DELETE FROM ext_work_manager_todo_dependencies
+       WHERE (todo_id = ? OR depends_on_id = ?) AND user_id = ?`,
+      [todoId, todoId, userId]
+    )
+  }
+
+  /**
+   * Checks whether `todoId` depends on `targetId`, directly or transitively.
+   */
+  private async dependsOn(todoId: string, targetId: string): Promise<boolean> {
+    const visited = new Set<string>([todoId])
+    const queue = [todoId]
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      for (const blockerId of await this.listBlockerIds(current)) {
+        if (blockerId === targetId) return true
+        if (visited.has(blockerId)) continue
+        visited.add(blockerId)
+        queue.push(blockerId)
+      }
+    }
+
+    return false
+  }
+}
@@ -0,0 +1,701 @@
+import { NO_PROJECT_GROUP } from './constants.js'
+import type { DatabaseAPI } from './workDb.js'
+
+export interface Migration {
+  /** Schema version reached once the migration has run. Versions are consecutive from 1. */
+  version: number
+  name: string
+  up(db: DatabaseAPI): Promise<void>
+}
+
+export const MIGRATIONS_TABLE = 'ext_work_manager_migrations'
+
+/** Tables that gained a user_id column when the extension became multi-user. */
+const USER_SCOPED_TABLES = [
+  'ext_work_manager_projects',
+  'ext_work_manager_todos',
+  'ext_work_manager_subitems',
+  'ext_work_manager_comments',
+  'ext_work_manager_group_state',
+]
+
+/**
+ * Adds a column unless it exists. Databases created before migrations were versioned may
+ * already have columns added by later migrations.
+ */
+async function addColumnIfMissing(
+  db: DatabaseAPI,
+  table: string,
+  column: string,
+  type: string
+): Promise<void> {
+  const columns = await db.execute<{ name: string }>(`PRAGMA table_info(${table})`)
+  if (columns.some((entry) => entry.name === column)) return
+  await db.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+}
+
+async function tableExists(db: DatabaseAPI, table: string): Promise<boolean> {
+  const rows = await db.execute<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    [table]
+  )
+  return rows.length > 0
+}
+
+/** Text indexed for a todo: title and description on separate lines. */
+const TODO_SEARCH_CONTENT = `new.title || char(10) || COALESCE(new.description, '')`
+
+/** The search index rowid of a todo, comment or subitem, from the rowid table. */
+const searchRowId = (kind: string, id: string): string =>
+  `(SELECT id FROM ext_work_manager_search_rows WHERE kind = '${kind}' AND entity_id = ${id})`
+
+/**
+ * Ordered schema migrations. Each runs once, in its own transaction; append new migrations
+ * at the end and never change one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    async up(db) {
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_projects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_group_state (
+          group_id TEXT PRIMARY KEY,
+          collapsed INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_todos (
+          id TEXT PRIMARY KEY,
+          project_id TEXT,
+          title TEXT NOT NULL,
+          description TEXT,
+          icon TEXT NOT NULL,
+          status TEXT NOT NULL,
+          due_at TEXT NOT NULL,
+          date TEXT NOT NULL,
+          time TEXT NOT NULL,
+          all_day INTEGER NOT NULL DEFAULT 0,
+          reminder_minutes INTEGER,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_subitems (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          completed_at TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_comments (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_due_idx
+         ON ext_work_manager_todos(due_at)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_project_idx
+         ON ext_work_manager_todos(project_id)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_subitems_todo_idx
+         ON ext_work_manager_subitems(todo_id)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_comments_todo_idx
+         ON ext_work_manager_comments(todo_id)`
+      )
+    },
+  },
+  {
+    version: 2,
+    name: 'multi_user',
+    async up(db) {
+      for (const table of USER_SCOPED_TABLES) {
+        await addColumnIfMissing(db, table, 'user_id', 'TEXT')
+      }
+
+      // Records from before multi-user support belong to the 'legacy' user
+      for (const table of USER_SCOPED_TABLES) {
+        await db.execute(`UPDATE ${table} SET user_id = 'legacy' WHERE user_id IS NULL`)
+      }
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_user_settings (
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (key, user_id)
+        )`
+      )
+
+      await db.execute(
+        `INSERT OR IGNORE INTO ext_work_manager_user_settings (key, value, user_id, updated_at)
+         SELECT key, value, 'legacy', updated_at FROM ext_work_manager_settings`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_projects_user_idx
+         ON ext_work_manager_projects(user_id)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_user_idx
+         ON ext_work_manager_todos(user_id)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_group_state_user_idx
+         ON ext_work_manager_group_state(user_id)`
+      )
+    },
+  },
+  {
+    version: 3,
+    name: 'cleanup_legacy_values',
+    async up(db) {
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET project_id = NULL
+         WHERE project_id IS NOT NULL AND TRIM(project_id) = ''`
+      )
+
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET status = 'not_started'
+         WHERE status IN ('pending', 'todo', 'open')`
+      )
+
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET status = 'in_progress'
+         WHERE status IN ('inprogress', 'in-progress')`
+      )
+
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET status = 'completed'
+         WHERE status IN ('complete', 'done')`
+      )
+
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET status = 'cancelled'
+         WHERE status = 'canceled'`
+      )
+
+      await db.execute(
+        `UPDATE ext_work_manager_todos
+         SET project_id = NULL
+         WHERE project_id IS NOT NULL
+           AND project_id NOT IN (SELECT id FROM ext_work_manager_projects)`
+      )
+
+      await db.execute(
+        `DELETE FROM ext_work_manager_group_state
+         WHERE group_id IS NOT NULL
+           AND group_id != ?
+           AND group_id NOT IN (SELECT id FROM ext_work_manager_projects)`,
+        [NO_PROJECT_GROUP]
+      )
+    },
+  },
+  {
+    version: 4,
+    name: 'todo_recurrence',
+    async up(db) {
+      // Rule stored as JSON, plus a link to the spawned follow-up occurrence
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'recurrence', 'TEXT')
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'next_occurrence_id', 'TEXT')
+    },
+  },
+  {
+    version: 5,
+    name: 'todo_snooze',
+    async up(db) {
+      // When a fired reminder should fire again, independent of due_at
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'snoozed_until', 'TEXT')
+    },
+  },
+  {
+    version: 6,
+    name: 'todo_overdue_follow_ups',
+    async up(db) {
+      // Overdue follow-ups sent since the due date was last set
+      await addColumnIfMissing(
+        db,
+        'ext_work_manager_todos',
+        'overdue_follow_ups',
+        'INTEGER NOT NULL DEFAULT 0'
+      )
+    },
+  },
+  {
+    version: 7,
+    name: 'todo_multiple_reminders',
+    async up(db) {
+      // Offsets in minutes stored as a JSON array
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'reminders', 'TEXT')
+    },
+  },
+  {
+    version: 8,
+    name: 'todo_priority',
+    async up(db) {
+      await addColumnIfMissing(
+        db,
+        'ext_work_manager_todos',
+        'priority',
+        "TEXT NOT NULL DEFAULT 'none'"
+      )
+    },
+  },
+  {
+    version: 9,
+    name: 'tags',
+    async up(db) {
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_todo_tags (
+          todo_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          PRIMARY KEY (todo_id, tag_id)
+        )`
+      )
+
+      // Tag names are unique per user regardless of case
+      await db.execute(
+        `CREATE UNIQUE INDEX IF NOT EXISTS ext_work_manager_tags_user_name_idx
+         ON ext_work_manager_tags(user_id, name COLLATE NOCASE)`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todo_tags_tag_idx
+         ON ext_work_manager_todo_tags(tag_id)`
+      )
+    },
+  },
+  {
+    version: 10,
+    name: 'todo_dependencies',
+    async up(db) {
+      // todo_id cannot be completed before depends_on_id
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_todo_dependencies (
+          todo_id TEXT NOT NULL,
+          depends_on_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (todo_id, depends_on_id)
+        )`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todo_dependencies_depends_on_idx
+         ON ext_work_manager_todo_dependencies(depends_on_id)`
+      )
+    },
+  },
+  {
+    version: 11,
+    name: 'search_index',
+    async up(db) {
+      // SQLite builds without FTS5 skip the index; search then falls back to LIKE
+      const [fts5] = await db.execute<{ enabled: number }>(
+        `SELECT sqlite_compileoption_used('ENABLE_FTS5') AS enabled`
+      )
+      if (!fts5?.enabled) return
+
+      const existed = await tableExists(db, 'ext_work_manager_search')
+
+      await db.execute(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS ext_work_manager_search USING fts5(
+          kind UNINDEXED,
+          entity_id UNINDEXED,
+          todo_id UNINDEXED,
+          user_id UNINDEXED,
+          content,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )`
+      )
+
+      // Triggers keep the index in sync on every write to todos, comments and subitems
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_todos_search_insert
+         AFTER INSERT ON ext_work_manager_todos BEGIN
+           INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+           VALUES ('todo', new.id, new.id, new.user_id, ${TODO_SEARCH_CONTENT});
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_todos_search_update
+         AFTER UPDATE OF title, description, user_id ON ext_work_manager_todos BEGIN
+           DELETE FROM ext_work_manager_search WHERE kind = 'todo' AND entity_id = old.id;
+           INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+           VALUES ('todo', new.id, new.id, new.user_id, ${TODO_SEARCH_CONTENT});
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_todos_search_delete
+         AFTER DELETE ON ext_work_manager_todos BEGIN
+           DELETE FROM ext_work_manager_search WHERE kind = 'todo' AND entity_id = old.id;
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_comments_search_insert
+         AFTER INSERT ON ext_work_manager_comments BEGIN
+           INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+           VALUES ('comment', new.id, new.todo_id, new.user_id, new.text);
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_comments_search_delete
+         AFTER DELETE ON ext_work_manager_comments BEGIN
+           DELETE FROM ext_work_manager_search WHERE kind = 'comment' AND entity_id = old.id;
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_subitems_search_insert
+         AFTER INSERT ON ext_work_manager_subitems BEGIN
+           INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+           VALUES ('subitem', new.id, new.todo_id, new.user_id, new.text);
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_subitems_search_update
+         AFTER UPDATE OF text, todo_id, user_id ON ext_work_manager_subitems BEGIN
+           DELETE FROM ext_work_manager_search WHERE kind = 'subitem' AND entity_id = old.id;
+           INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+           VALUES ('subitem', new.id, new.todo_id, new.user_id, new.text);
+         END`
+      )
+      await db.execute(
+        `CREATE TRIGGER IF NOT EXISTS ext_work_manager_subitems_search_delete
+         AFTER DELETE ON ext_work_manager_subitems BEGIN
+           DELETE FROM ext_work_manager_search WHERE kind = 'subitem' AND entity_id = old.id;
+         END`
+      )
+
+      if (existed) return
+
+      // Index rows written before the index existed
+      await db.execute(
+        `INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+         SELECT 'todo', id, id, user_id, title || char(10) || COALESCE(description, '')
+         FROM ext_work_manager_todos`
+      )
+      await db.execute(
+        `INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+         SELECT 'comment', id, todo_id, user_id, text FROM ext_work_manager_comments`
+      )
+      await db.execute(
+        `INSERT INTO ext_work_manager_search (kind, entity_id, todo_id, user_id, content)
+         SELECT 'subitem', id, todo_id, user_id, text FROM ext_work_manager_subitems`
+      )
+    },
+  },
+  {
+    version: 12,
+    name: 'activity_log',
+    async up(db) {
+      // Rows are append-only; rowid order is the order the activity happened in
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_activity (
+          id TEXT PRIMARY KEY,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          subject_id TEXT,
+          changes TEXT NOT NULL,
+          source TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          user_id TEXT NOT NULL
+        )`
+      )
+
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_activity_entity_idx
+         ON ext_work_manager_activity(user_id, entity_type, entity_id)`
+      )
+    },
+  },
+  {
+    version: 13,
+    name: 'trash',
+    async up(db) {
+      // Deleting moves todos and projects to the trash; purging removes them for good
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'deleted_at', 'TEXT')
+      await addColumnIfMissing(db, 'ext_work_manager_projects', 'deleted_at', 'TEXT')
+    },
+  },
+  {
+    version: 14,
+    name: 'project_archive',
+    async up(db) {
+      await addColumnIfMissing(db, 'ext_work_manager_projects', 'archived_at', 'TEXT')
+    },
+  },
+  {
+    version: 15,
+    name: 'project_metadata',
+    async up(db) {
+      const table = 'ext_work_manager_projects'
+      await addColumnIfMissing(db, table, 'icon', "TEXT NOT NULL DEFAULT 'folder-01'")
+      await addColumnIfMissing(db, table, 'color', 'TEXT')
+      await addColumnIfMissing(db, table, 'status', "TEXT NOT NULL DEFAULT 'active'")
+      await addColumnIfMissing(db, table, 'start_date', 'TEXT')
+      await addColumnIfMissing(db, table, 'deadline', 'TEXT')
+    },
+  },
+  {
+    version: 16,
+    name: 'todo_ical_uid',
+    async up(db) {
+      // Todos imported from calendars remember the entry's UID so re-imports update them
+      await addColumnIfMissing(db, 'ext_work_manager_todos', 'ical_uid', 'TEXT')
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_ical_uid_idx
+         ON ext_work_manager_todos(user_id, ical_uid)`
+      )
+    },
+  },
+  {
+    version: 17,
+    name: 'search_index_rowids',
+    async up(db) {
+      if (!(await tableExists(db, 'ext_work_manager_search'))) return
+
+      // Index rows are found by rowid; kind and entity_id are unindexed FTS columns, so
+      // matching on them scanned the whole index on every write
+      await db.execute(
+        `CREATE TABLE IF NOT EXISTS ext_work_manager_search_rows (
+          id INTEGER PRIMARY KEY,
+          kind TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          UNIQUE (kind, entity_id)
+        )`
+      )
+
+      const sources: Array<{
+        kind: string
+        table: string
+        todoId: string
+        content: string
+        updateOf: string | null
+      }> = [
+        {
+          kind: 'todo',
+          table: 'ext_work_manager_todos',
+          todoId: 'id',
+          content: TODO_SEARCH_CONTENT,
+          updateOf: 'title, description, user_id',
+        },
+        {
+          kind: 'comment',
+          table: 'ext_work_manager_comments',
+          todoId: 'todo_id',
+          content: 'new.text',
+          updateOf: null,
+        },
+        {
+          kind: 'subitem',
+          table: 'ext_work_manager_subitems',
+          todoId: 'todo_id',
+          content: 'new.text',
+          updateOf: 'text, todo_id, user_id',
+        },
+      ]
+
+      for (const { kind, table, todoId, content, updateOf } of sources) {
+        const insert = `INSERT INTO ext_work_manager_search (rowid, kind, entity_id, todo_id, user_id, content)
+           VALUES (${searchRowId(kind, 'new.id')}, '${kind}', new.id, new.${todoId}, new.user_id, ${content});`
+        const remove = `DELETE FROM ext_work_manager_search WHERE rowid = ${searchRowId(kind, 'old.id')};`
+
+        await db.execute(`DROP TRIGGER IF EXISTS ${table}_search_insert`)
+        await db.execute(
+          `CREATE TRIGGER ${table}_search_insert AFTER INSERT ON ${table} BEGIN
+             INSERT OR IGNORE INTO ext_work_manager_search_rows (kind, entity_id)
+             VALUES ('${kind}', new.id);
+             ${insert}
+           END`
+        )
+        await db.execute(`DROP TRIGGER IF EXISTS ${table}_search_update`)
+        if (updateOf) {
+          await db.execute(
+            `CREATE TRIGGER ${table}_search_update AFTER UPDATE OF ${updateOf} ON ${table} BEGIN
+               ${remove}
+               ${insert}
+             END`
+          )
+        }
+        await db.execute(`DROP TRIGGER IF EXISTS ${table}_search_delete`)
+        await db.execute(
+          `CREATE TRIGGER ${table}_search_delete AFTER DELETE ON ${table} BEGIN
+             ${remove}
+             DELETE FROM ext_work_manager_search_rows WHERE kind = '${kind}' AND entity_id = old.id;
+           END`
+        )
+      }
+
+      // Rebuild the index with rowids from the new table
+      await db.execute(`DELETE FROM ext_work_manager_search`)
+      await db.execute(
+        `INSERT INTO ext_work_manager_search_rows (kind, entity_id)
+         SELECT 'todo', id FROM ext_work_manager_todos
+         UNION ALL SELECT 'comment', id FROM ext_work_manager_comments
+         UNION ALL SELECT 'subitem', id FROM ext_work_manager_subitems`
+      )
+      await db.execute(
+        `INSERT INTO ext_work_manager_search (rowid, kind, entity_id, todo_id, user_id, content)
+         SELECT r.id, 'todo', t.id, t.id, t.user_id, t.title || char(10) || COALESCE(t.description, '')
+         FROM ext_work_manager_todos t
+         JOIN ext_work_manager_search_rows r ON r.kind = 'todo' AND r.entity_id = t.id`
+      )
+      for (const { kind, table } of sources.slice(1)) {
+        await db.execute(
+          `INSERT INTO ext_work_manager_search (rowid, kind, entity_id, todo_id, user_id, content)
+           SELECT r.id, '${kind}', e.id, e.todo_id, e.user_id, e.text
+           FROM ${table} e
+           JOIN ext_work_manager_search_rows r ON r.kind = '${kind}' AND r.entity_id = e.id`
+        )
+      }
+    },
+  },
+  {
+    version: 18,
+    name: 'group_state_per_user',
+    async up(db) {
+      // group_id alone was the key, so users could not each keep a state for the same group
+      await db.execute(
+        `CREATE TABLE ext_work_manager_group_state_new (
+          group_id TEXT NOT NULL,
+          collapsed INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          PRIMARY KEY (group_id, user_id)
+        )`
+      )
+      await db.execute(
+        `INSERT INTO ext_work_manager_group_state_new (group_id, collapsed, updated_at, user_id)
+         SELECT group_id, collapsed, updated_at, COALESCE(user_id, 'legacy')
+         FROM ext_work_manager_group_state`
+      )
+      await db.execute(`DROP TABLE ext_work_manager_group_state`)
+      await db.execute(
+        `ALTER TABLE ext_work_manager_group_state_new RENAME TO ext_work_manager_group_state`
+      )
+      await db.execute(
+        `CREATE INDEX IF NOT EXISTS ext_work_manager_group_state_user_idx
+         ON ext_work_manager_group_state(user_id)`
+      )
+    },
+  },
+]
+
+/**
+ * Returns the highest applied migration version, or 0 for a database without migrations.
+ */
+export async function getSchemaVersion(db: DatabaseAPI): Promise<number> {
+  if (!(await tableExists(db, MIGRATIONS_TABLE))) return 0
+  const [row] = await db.execute<{ version: number | null }>(
+    `SELECT MAX(version) AS version FROM ${MIGRATIONS_TABLE}`
+  )
+  return Number(row?.version ?? 0)
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction. A failing migration is
+ * rolled back and aborts the run, so the schema is never left half-migrated.
+ * @returns The schema version after the run
+ * @throws Error naming the migration that failed
+ */
+export async function runMigrations(
+  db: DatabaseAPI,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  )
+
+  const current = await getSchemaVersion(db)
+  const latest = migrations[migrations.length - 1]?.version ?? 0
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this version of Work Manager supports (${latest})`
+    )
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue
+
+    await db.execute('BEGIN')
+    try {
+      await migration.up(db)
+      await db.execute(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`,
+        [migration.version, migration.name, new Date().toISOString()]
+      )
+      await db.execute('COMMIT')
+    } catch (error) {
+      await db.execute('ROLLBACK').catch(() => undefined)
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(
+        `Work Manager migration ${migration.version} (${migration.name}) failed: ${message}`
+      )
+    }
+  }
+
+  return getSchemaVersion(db)
+}
@@ -1,5 +1,11 @@
-import type { WorkPanelGroup, WorkTodoStatus } from '../types.js'
-import { NO_PROJECT_GROUP } from './constants.js'
+import type {
+  WorkPanelGroup,
+  WorkProjectStatus,
+  WorkTodoPriority,
+  WorkTodoStatus,
+} from '../types.js'
+import { formatZonedDate, formatZonedTime } from '../timezone.js'
+import { DEFAULT_PROJECT_ICON, NO_PROJECT_GROUP, PRIORITY_RANK } from './constants.js'
 import { normalizeOptionalString } from './utils.js'
 import type { WorkDb } from './workDb.js'
 
@@ -13,6 +19,26 @@ const STATUS_CONFIG: Record<
   cancelled: { label: 'Cancelled', variant: 'danger' },
 }
 
+const PRIORITY_CONFIG: Record<
+  WorkTodoPriority,
+  { label: string; variant: 'default' | 'primary' | 'success' | 'warning' | 'danger' }
+> = {
+  none: { label: '', variant: 'default' },
+  low: { label: 'Low', variant: 'default' },
+  medium: { label: 'Medium', variant: 'primary' },
+  high: { label: 'High', variant: 'warning' },
+  urgent: { label: 'Urgent', variant: 'danger' },
+}
+
+const PROJECT_STATUS_CONFIG: Record<
+  WorkProjectStatus,
+  { label: string; variant: 'default' | 'primary' | 'success' | 'warning' | 'danger' }
+> = {
+  active: { label: '', variant: 'default' },
+  on_hold: { label: 'On hold', variant: 'warning' },
+  done: { label: 'Done', variant: 'success' },
+}
+
 /**
  * Formats date and time for display. Shows time only if not an all-day event.
  */
@@ -24,26 +50,54 @@ function formatDateTime(date: string, time: string, allDay: boolean): string {
   return `${date} ${timePart}`
 }
 
+/**
+ * Resolves the date and time to display. Timed todos are shown in the given time zone;
+ * all-day todos and todos without a time zone use the stored date and time.
+ */
+function resolveDisplayDateTime(
+  dueAt: string,
+  date: string,
+  time: string,
+  allDay: boolean,
+  timeZone: string | null
+): { date: string; time: string } {
+  if (!timeZone || allDay) return { date, time }
+  const instant = new Date(dueAt)
+  if (Number.isNaN(instant.getTime())) return { date, time }
+  return {
+    date: formatZonedDate(instant, timeZone),
+    time: formatZonedTime(instant, timeZone),
+  }
+}
+
 export class PanelRepository {
   private readonly db: WorkDb
+  private readonly resolveTimeZone: () => Promise<string | null>
 
-  constructor(db: WorkDb) {
+  constructor(db: WorkDb, resolveTimeZone: () => Promise<string | null> = async () => null) {
     this.db = db
+    this.resolveTimeZone = resolveTimeZone
   }
 
   async listGroups(): Promise<WorkPanelGroup[]> {
     await this.db.initialize()
 
     const userId = this.db.getUserId()
+    const timeZone = await this.resolveTimeZone()
 
     const projects = await this.db.execute<{
       id: string
       name: string
       description: string | null
+      icon: string | null
+      color: string | null
+      status: WorkProjectStatus | null
+      start_date: string | null
+      deadline: string | null
     }>(
-      `SELECT id, name, description
+      `SELECT id, name, description, icon, color, status, start_date, deadline
        FROM ext_work_manager_projects
-       WHERE user_id = ?
+       WHERE user_id = ? AND deleted_at IS NULL AND archived_at IS NULL
        ORDER BY name ASC`,
       [userId]
     )
@@ -60,14 +114,18 @@ export class PanelRepository {
       description: string | null
       icon: string
       status: WorkTodoStatus
+      priority: WorkTodoPriority | null
       due_at: string
       date: string
       time: string
       all_day: number
     }>(
-      `SELECT id, project_id, title, description, icon, status, due_at, date, time, all_day
-       FROM ext_work_manager_todos
-       WHERE user_id = ?
+      `SELECT id, project_id, title, description, icon, status, priority, due_at, date, time, all_day
+       FROM ext_work_manager_todos t
+       WHERE t.user_id = ? AND t.deleted_at IS NULL
+         AND NOT EXISTS (SELECT 1 FROM ext_work_manager_projects p
+           WHERE p.id = t.project_id AND p.user_id = t.user_id
+             AND p.deleted_at IS NULL AND p.archived_at IS NOT NULL)
        ORDER BY due_at ASC`,
       [userId]
     )
@@ -100,12 +158,34 @@ export class PanelRepository {
       [userId]
     )
 
-    const subItemsByTodo = new Map<string, Array<{ id: string; text: string; completedAt: string | null }>>()
+    const todoTags = await this.db.execute<{ todo_id: string; tag_id: string; name: string }>(
+      `SELECT tt.todo_id, tt.tag_id, t.name
+       FROM ext_work_manager_todo_tags tt
+       JOIN ext_work_manager_tags t ON t.id = tt.tag_id
+       WHERE tt.user_id = ?
+       ORDER BY t.name COLLATE NOCASE ASC`,
+      [userId]
+    )
+
+    const blockedTodos = await this.db.execute<{ todo_id: string }>(
+      `SELECT DISTINCT d.todo_id
+       FROM ext_work_manager_todo_dependencies d
+       JOIN ext_work_manager_todos t ON t.id = d.depends_on_id AND t.user_id = d.user_id
+       WHERE d.user_id = ? AND t.status NOT IN ('completed', 'cancelled') AND t.deleted_at IS NULL`,
+      [userId]
+    )
+    const blockedIds = new Set(blockedTodos.map((row) => row.todo_id))
+
+    const subItemsByTodo = new Map<
+      string,
+      Array<{ id: string; text: string; completed: boolean; completedAt: string | null }>
+    >()
     for (const subItem of subItems) {
       const entry = subItemsByTodo.get(subItem.todo_id) ?? []
       entry.push({
         id: subItem.id,
         text: subItem.text,
+        completed: !!subItem.completed_at,
         completedAt: subItem.completed_at,
       })
       subItemsByTodo.set(subItem.todo_id, entry)
@@ -122,6 +202,13 @@ export class PanelRepository {
       commentsByTodo.set(comment.todo_id, entry)
     }
 
+    const tagsByTodo = new Map<string, Array<{ id: string; name: string }>>()
+    for (const todoTag of todoTags) {
+      const entry = tagsByTodo.get(todoTag.todo_id) ?? []
+      entry.push({ id: todoTag.tag_id, name: todoTag.name })
+      tagsByTodo.set(todoTag.todo_id, entry)
+    }
+
     const collapsedByGroup = new Map(
       groupStates.map((state) => [state.group_id, !!state.collapsed])
     )
@@ -130,9 +217,18 @@ export class PanelRepository {
 
     for (const project of projects) {
       const groupId = project.id
+      const status = project.status ?? 'active'
+      const statusConfig = PROJECT_STATUS_CONFIG[status] ?? PROJECT_STATUS_CONFIG.active
       groups.push({
         id: groupId,
         title: project.name,
+        icon: project.icon || DEFAULT_PROJECT_ICON,
+        color: project.color,
+        status,
+        statusLabel: statusConfig.label,
+        statusVariant: statusConfig.variant,
+        startDate: project.start_date,
+        deadline: project.deadline,
         collapsed: collapsedByGroup.get(groupId) ?? false,
         items: [],
       })
@@ -141,6 +237,13 @@ export class PanelRepository {
     groups.push({
       id: NO_PROJECT_GROUP,
       title: 'No Project',
+      icon: DEFAULT_PROJECT_ICON,
+      color: null,
+      status: null,
+      statusLabel: '',
+      statusVariant: 'default',
+      startDate: null,
+      deadline: null,
       collapsed: collapsedByGroup.get(NO_PROJECT_GROUP) ?? false,
       items: [],
     })
@@ -158,6 +261,9 @@ export class PanelRepository {
 
       const allDay = !!todo.all_day
       const statusConfig = STATUS_CONFIG[todo.status]
+      const priority = todo.priority ?? 'none'
+      const priorityConfig = PRIORITY_CONFIG[priority] ?? PRIORITY_CONFIG.none
+      const display = resolveDisplayDateTime(todo.due_at, todo.date, todo.time, allDay, timeZone)
 
       group.items.push({
         id: todo.id,
@@ -167,19 +273,34 @@ export class PanelRepository {
         status: todo.status,
         statusLabel: statusConfig.label,
         statusVariant: statusConfig.variant,
-        date: todo.date,
-        time: todo.time,
-        dateTime: formatDateTime(todo.date, todo.time, allDay),
+        priority,
+        priorityLabel: priorityConfig.label,
+        priorityVariant: priorityConfig.variant,
+        date: display.date,
+        time: display.time,
+        dateTime: formatDateTime(display.date, display.time, allDay),
         allDay,
         comments: todoComments,
         subItems: todoSubItems,
         commentCount: todoComments.length,
+        blocked: blockedIds.has(todo.id),
+        blockedLabel: blockedIds.has(todo.id) ? 'Blocked' : '',
+        tags: tagsByTodo.get(todo.id) ?? [],
       })
     }
 
+    // Within a group, higher priority first; todos are already ordered by due date
+    for (const group of groups) {
+      group.items.sort(
+        (a, b) => (PRIORITY_RANK[b.priority] ?? 0) - (PRIORITY_RANK[a.priority] ?? 0)
+      )
+    }
+
     const groupsWithSort = groups.map((group) => {
-      const firstTodo = group.items[0]
-      const earliest = firstTodo ? `${firstTodo.date}T${firstTodo.time}` : null
+      const earliest =
+        group.items
+          .map((item) => `${item.date}T${item.time}`)
+          .sort((a, b) => a.localeCompare(b))[0] ?? null
       return { group, earliest }
     })
 
@@ -194,39 +315,39 @@ export class PanelRepository {
   }
 
   async setGroupCollapsed(groupId: string, collapsed: boolean): Promise<boolean> {
-    await this.db.initialize()
-
-    const userId = this.db.getUserId()
-
-    if (groupId !== NO_PROJECT_GROUP) {
-      const project = await this.db.execute<{ id: string }>(
-        `SELECT id FROM ext_work_manager_projects WHERE id = ? AND user_id = ?`,
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+
+      if (groupId !== NO_PROJECT_GROUP) {
+        const project = await this.db.execute<{ id: string }>(
+          `SELECT id FROM ext_work_manager_projects WHERE id = ? AND user_id = ?`,
+          [groupId, userId]
+        )
+        if (project.length === 0) return false
+      }
+
+      const now = new Date().toISOString()
+
+      // Check if record exists for this user/group combination
+      const existing = await this.db.execute<{ group_id: string }>(
+        `SELECT group_id FROM ext_work_manager_group_state WHERE group_id = ? AND user_id = ?`,
         [groupId, userId]
       )
-      if (project.length === 0) return false
-    }
-
-    const now = new Date().toISOString()
-
-    // Check if record exists for this user/group combination
-    const existing = await this.db.execute<{ group_id: string }>(
-      `SELECT group_id FROM ext_work_manager_group_state WHERE group_id = ? AND user_id = ?`,
-      [groupId, userId]
-    )
-
-    if (existing.length > 0) {
-      await this.db.execute(
-        `UPDATE ext_work_manager_group_state SET collapsed = ?, updated_at = ? WHERE group_id = ? AND user_id = ?`,
-        [collapsed ? 1 : 0, now, groupId, userId]
-      )
-    } else {
-      await this.db.execute(
-        `INSERT INTO ext_work_manager_group_state (group_id, collapsed, updated_at, user_id)
-         VALUES (?, ?, ?, ?)`,
-        [groupId, collapsed ? 1 : 0, now, userId]
-      )
-    }
 
-    return true
+      if (existing.length > 0) {
+        await this.db.execute(
+          `UPDATE ext_work_manager_group_state SET collapsed = ?, updated_at = ? WHERE group_id = ? AND user_id = ?`,
+          [collapsed ? 1 : 0, now, groupId, userId]
+        )
+      } else {
+        await this.db.execute(
+          `INSERT INTO ext_work_manager_group_state (group_id, collapsed, updated_at, user_id)
+           VALUES (?, ?, ?, ?)`,
+          [groupId, collapsed ? 1 : 0, now, userId]
+        )
+      }
+
+      return true
+    })
   }
 }
@@ -1,21 +1,93 @@
-import type { ListProjectsOptions, WorkProject, WorkProjectInput } from '../types.js'
-import { generateId, normalizeQuery } from './utils.js'
+import type {
+  ListProjectsOptions,
+  WorkPage,
+  WorkProject,
+  WorkProjectInput,
+  WorkProjectStatus,
+} from '../types.js'
+import { diffFields, initialFields, type ActivityRepository } from './activityRepository.js'
+import { DEFAULT_PROJECT_ICON } from './constants.js'
+import { decodeCursor, encodeCursor, generateId, normalizeQuery, resolvePage } from './utils.js'
 import type { WorkDb } from './workDb.js'
 
+const PROJECT_COLUMNS =
+  'id, name, description, icon, color, status, start_date, deadline, archived_at, created_at, updated_at'
+
+/** Project fields recorded in the activity log. */
+const TRACKED_FIELDS: Array<keyof WorkProject & string> = [
+  'name',
+  'description',
+  'icon',
+  'color',
+  'status',
+  'startDate',
+  'deadline',
+]
+
+interface ProjectRow {
+  id: string
+  name: string
+  description: string | null
+  icon: string | null
+  color: string | null
+  status: WorkProjectStatus | null
+  start_date: string | null
+  deadline: string | null
+  archived_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+const mapProjectRow = (row: ProjectRow): WorkProject => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  icon: row.icon || DEFAULT_PROJECT_ICON,
+  color: row.color,
+  status: row.status ?? 'active',
+  startDate: row.start_date,
+  deadline: row.deadline,
+  archivedAt: row.archived_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const assertDateRange = (project: WorkProject): void => {
+  if (project.startDate && project.deadline && project.startDate > project.deadline) {
+    throw new Error('Project startDate must not be after its deadline')
+  }
+}
+
 export class ProjectsRepository {
   private readonly db: WorkDb
+  private readonly activity: ActivityRepository
 
-  constructor(db: WorkDb) {
+  constructor(db: WorkDb, activity: ActivityRepository) {
     this.db = db
+    this.activity = activity
   }
 
-  async list(options: ListProjectsOptions = {}): Promise<WorkProject[]> {
+  /**
+   * Lists projects by name, one page at a time, by offset or by the cursor returned with
+   * the previous page. Archived projects are left out unless `includeArchived` is set.
+   */
+  async list(options: ListProjectsOptions = {}): Promise<WorkPage<WorkProject>> {
     await this.db.initialize()
 
-    const { query, limit = 50, offset = 0 } = options
+    const { query, status, includeArchived = false, cursor } = options
+    const { limit, offset } = resolvePage(options.limit, options.offset, 50)
     const userId = this.db.getUserId()
     const params: unknown[] = [userId]
-    const conditions: string[] = ['user_id = ?']
+    const conditions: string[] = ['user_id = ?', 'deleted_at IS NULL']
+
+    if (status) {
+      conditions.push('status = ?')
+      params.push(status)
+    }
+
+    if (!includeArchived) {
+      conditions.push('archived_at IS NULL')
+    }
 
     if (query) {
       conditions.push(`(LOWER(name) LIKE ? OR LOWER(description) LIKE ?)`)
@@ -23,124 +95,220 @@ export class ProjectsRepository {
       params.push(normalized, normalized)
     }
 
-    let sql = `SELECT id, name, description, created_at, updated_at
+    const [{ total }] = await this.db.execute<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM ext_work_manager_projects WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    if (cursor) {
+      const [cursorName, cursorId] = decodeCursor(cursor, 'projects:name', 2)
+      conditions.push(`(name > ? OR (name = ? AND id > ?))`)
+      params.push(cursorName, cursorName, cursorId)
+    }
+
+    let sql = `SELECT ${PROJECT_COLUMNS}
        FROM ext_work_manager_projects
        WHERE ${conditions.join(' AND ')}`
 
-    sql += ` ORDER BY name ASC LIMIT ? OFFSET ?`
-    params.push(limit, offset)
-
-    const rows = await this.db.execute<{
-      id: string
-      name: string
-      description: string | null
-      created_at: string
-      updated_at: string
-    }>(sql, params)
-
-    return rows.map((row) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description ?? undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }))
+    sql += ` ORDER BY name ASC, id ASC LIMIT ? OFFSET ?`
+    params.push(limit + 1, cursor ? 0 : offset)
+
+    const rows = await this.db.execute<ProjectRow>(sql, params)
+
+    const hasMore = rows.length > limit
+    const pageRows = rows.slice(0, limit)
+    const last = pageRows[pageRows.length - 1]
+
+    return {
+      items: pageRows.map(mapProjectRow),
+      total: Number(total ?? 0),
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor('projects:name', [last.name, last.id]) : null,
+    }
   }
 
   async get(id: string): Promise<WorkProject | null> {
     await this.db.initialize()
 
     const userId = this.db.getUserId()
-    const rows = await this.db.execute<{
-      id: string
-      name: string
-      description: string | null
-      created_at: string
-      updated_at: string
-    }>(
-      `SELECT id, name, description, created_at, updated_at
+    const rows = await this.db.execute<ProjectRow>(
+      `SELECT ${PROJECT_COLUMNS}
        FROM ext_work_manager_projects
-       WHERE id = ? AND user_id = ?`,
+       WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
       [id, userId]
     )
 
     const row = rows[0]
-    if (!row) return null
-
-    return {
-      id: row.id,
-      name: row.name,
-      description: row.description ?? undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }
+    return row ? mapProjectRow(row) : null
   }
 
   async upsert(id: string | undefined, input: WorkProjectInput): Promise<WorkProject> {
-    await this.db.initialize()
+    return this.db.transaction(() => this.save(id, input))
+  }
 
+  /**
+   * Upsert without its own transaction, for use inside one.
+   */
+  async save(id: string | undefined, input: WorkProjectInput): Promise<WorkProject> {
     const now = new Date().toISOString()
     const userId = this.db.getUserId()
     const projectId = id ?? generateId('proj')
     const existing = await this.get(projectId)
 
     if (existing) {
-      const name = input.name ?? existing.name
-      const description = input.description ?? existing.description ?? null
+      const updated: WorkProject = {
+        ...existing,
+        name: input.name ?? existing.name,
+        description: input.description ?? existing.description,
+        icon: input.icon ?? existing.icon,
+        color: input.color !== undefined ? input.color : existing.color,
+        status: input.status ?? existing.status,
+        startDate: input.startDate !== undefined ? input.startDate : existing.startDate,
+        deadline: input.deadline !== undefined ? input.deadline : existing.deadline,
+        updatedAt: now,
+      }
+      assertDateRange(updated)
       await this.db.execute(
         `UPDATE ext_work_manager_projects
-         SET name = ?, description = ?, updated_at = ?
+         SET name = ?, description = ?, icon = ?, color = ?, status = ?, start_date = ?, deadline = ?, updated_at = ?
          WHERE id = ? AND user_id = ?`,
-        [name, description, now, projectId, userId]
+        [
+          updated.name,
+          updated.description ?? null,
+          updated.icon,
+          updated.color,
+          updated.status,
+          updated.startDate,
+          updated.deadline,
+          now,
+          projectId,
+          userId,
+        ]
       )
-      return {
-        id: projectId,
-        name,
-        description: description ?? undefined,
-        createdAt: existing.createdAt,
-        updatedAt: now,
+      const changes = diffFields(existing, updated, TRACKED_FIELDS)
+      if (changes.length > 0) {
+        await this.activity.record({
+          entityType: 'project',
+          entityId: projectId,
+          action: 'updated',
+          changes,
+        })
       }
+      return updated
+    }
+
+    if (id && (await this.isTrashed(id))) {
+      throw new Error('Project is in the trash; restore it with work_trash_restore first')
     }
 
     if (!input.name) {
       throw new Error('Project name is required')
     }
 
-    await this.db.execute(
-      `INSERT INTO ext_work_manager_projects (id, name, description, created_at, updated_at, user_id)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [projectId, input.name, input.description ?? null, now, now, userId]
-    )
-
-    return {
+    const created: WorkProject = {
       id: projectId,
       name: input.name,
       description: input.description ?? undefined,
+      icon: input.icon ?? DEFAULT_PROJECT_ICON,
+      color: input.color ?? null,
+      status: input.status ?? 'active',
+      startDate: input.startDate ?? null,
+      deadline: input.deadline ?? null,
+      archivedAt: null,
       createdAt: now,
       updatedAt: now,
     }
+    assertDateRange(created)
+
+    await this.db.execute(
+      `INSERT INTO ext_work_manager_projects (id, name, description, icon, color, status, start_date, deadline, created_at, updated_at, user_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        projectId,
+        created.name,
+        created.description ?? null,
+        created.icon,
+        created.color,
+        created.status,
+        created.startDate,
+        created.deadline,
+        now,
+        now,
+        userId,
+      ]
+    )
+
+    await this.activity.record({
+      entityType: 'project',
+      entityId: projectId,
+      action: 'created',
+      changes: initialFields(created, TRACKED_FIELDS),
+    })
+    return created
   }
 
-  async delete(id: string): Promise<boolean> {
-    await this.db.initialize()
+  /**
+   * Archives or unarchives a project. Archived projects and their todos are hidden from the
+   * panel and from default list results.
+   * @returns The updated project, or null if it does not exist
+   */
+  async setArchived(id: string, archived: boolean): Promise<WorkProject | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.get(id)
+      if (!existing) return null
+      if (!!existing.archivedAt === archived) return existing
 
-    const userId = this.db.getUserId()
-    const rows = await this.db.execute<{ id: string }>(
-      `SELECT id FROM ext_work_manager_projects WHERE id = ? AND user_id = ?`,
-      [id, userId]
-    )
+      const now = new Date().toISOString()
+      const archivedAt = archived ? now : null
+      await this.db.execute(
+        `UPDATE ext_work_manager_projects SET archived_at = ?, updated_at = ? WHERE id = ? AND user_id = ?`,
+        [archivedAt, now, id, this.db.getUserId()]
+      )
+      await this.activity.record({
+        entityType: 'project',
+        entityId: id,
+        action: archived ? 'archived' : 'unarchived',
+      })
 
-    if (rows.length === 0) return false
+      return { ...existing, archivedAt, updatedAt: now }
+    })
+  }
 
-    await this.db.execute(
-      `UPDATE ext_work_manager_todos SET project_id = NULL WHERE project_id = ? AND user_id = ?`,
-      [id, userId]
-    )
+  /**
+   * Moves a project to the trash. Its todos stay and read as having no project until the
+   * project is restored.
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ name: string }>(
+        `SELECT name FROM ext_work_manager_projects WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
+        [id, userId]
+      )
 
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_projects WHERE id = ? AND user_id = ?`,
+      const row = rows[0]
+      if (!row) return false
+
+      await this.db.execute(
+        `UPDATE ext_work_manager_projects SET deleted_at = ? WHERE id = ? AND user_id = ?`,
+        [new Date().toISOString(), id, userId]
+      )
+      await this.activity.record({
+        entityType: 'project',
+        entityId: id,
+        action: 'deleted',
+        changes: [{ field: 'name', from: row.name, to: null }],
+      })
+      return true
+    })
+  }
+
+  private async isTrashed(id: string): Promise<boolean> {
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<{ id: string }>(
+      `SELECT id FROM ext_work_manager_projects WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`,
       [id, userId]
     )
-    return true
+    return rows.length > 0
   }
 }
@@ -1,47 +1,108 @@
 import type {
+  ListActivityOptions,
   ListProjectsOptions,
   ListTodosOptions,
+  SearchOptions,
+  UpsertTodoOptions,
+  WorkActivity,
+  WorkActivitySource,
+  WorkBackup,
+  WorkBackupImportResult,
+  WorkBackupMode,
   WorkComment,
+  WorkPage,
   WorkCommentInput,
   WorkPanelGroup,
   WorkProject,
   WorkProjectInput,
+  WorkSearchHit,
   WorkSettings,
   WorkSettingsUpdate,
   WorkSubItem,
   WorkSubItemInput,
+  WorkTag,
   WorkTodo,
+  WorkTodoImport,
   WorkTodoInput,
+  WorkTrashItem,
+  WorkTrashKind,
 } from '../types.js'
+import { isValidTimeZone } from '../timezone.js'
+import { ActivityRepository } from './activityRepository.js'
+import { BackupRepository } from './backupRepository.js'
 import { CommentsRepository } from './commentsRepository.js'
+import { DependenciesRepository } from './dependenciesRepository.js'
 import { PanelRepository } from './panelRepository.js'
 import { ProjectsRepository } from './projectsRepository.js'
+import { SearchRepository } from './searchRepository.js'
 import { SettingsRepository } from './settingsRepository.js'
 import { SubItemsRepository } from './subItemsRepository.js'
+import { TagsRepository } from './tagsRepository.js'
 import { TodosRepository } from './todosRepository.js'
+import { resolvePurgeAt, TrashRepository } from './trashRepository.js'
 import { WorkDb, type DatabaseAPI } from './workDb.js'
 
+export interface WorkRepositoryOptions {
+  /**
+   * Returns a user's profile time zone, used unless overridden in settings. Called inside
+   * transactions, so it should answer from memory rather than ask the host.
+   */
+  profileTimeZone?: (userId: string) => string | null | undefined
+}
+
 export class WorkRepository {
   private readonly db: WorkDb
+  private readonly options: WorkRepositoryOptions
+  private readonly activity: ActivityRepository
   private readonly projects: ProjectsRepository
   private readonly comments: CommentsRepository
   private readonly subItems: SubItemsRepository
+  private readonly tags: TagsRepository
+  private readonly dependencies: DependenciesRepository
   private readonly todos: TodosRepository
   private readonly settings: SettingsRepository
+  private readonly searchIndex: SearchRepository
+  private readonly trash: TrashRepository
   private readonly panel: PanelRepository
+  private readonly backup: BackupRepository
 
   /**
    * Creates a WorkRepository instance.
    * @param database The database API or an existing WorkDb instance
+   * @param options Optional hooks into the host, such as the profile time zone
    */
-  constructor(database: DatabaseAPI | WorkDb) {
+  constructor(database: DatabaseAPI | WorkDb, options: WorkRepositoryOptions = {}) {
     this.db = database instanceof WorkDb ? database : new WorkDb(database)
-    this.projects = new ProjectsRepository(this.db)
-    this.comments = new CommentsRepository(this.db)
-    this.subItems = new SubItemsRepository(this.db)
-    this.todos = new TodosRepository(this.db, this.comments, this.subItems)
+    this.options = options
+    const resolveTimeZone = () => this.getTimeZone()
+    this.activity = new ActivityRepository(this.db)
+    this.projects = new ProjectsRepository(this.db, this.activity)
+    this.comments = new CommentsRepository(this.db, this.activity)
+    this.subItems = new SubItemsRepository(this.db, this.activity)
+    this.tags = new TagsRepository(this.db)
+    this.dependencies = new DependenciesRepository(this.db, this.activity)
+    this.todos = new TodosRepository(
+      this.db,
+      this.comments,
+      this.subItems,
+      this.tags,
+      this.dependencies,
+      this.projects,
+      this.activity,
+      resolveTimeZone
+    )
     this.settings = new SettingsRepository(this.db)
-    this.panel = new PanelRepository(this.db)
+    this.searchIndex = new SearchRepository(this.db)
+    this.trash = new TrashRepository(this.db, this.tags, this.dependencies, this.activity)
+    this.panel = new PanelRepository(this.db, resolveTimeZone)
+    this.backup = new BackupRepository(
+      this.db,
+      this.projects,
+      this.todos,
+      this.tags,
+      this.settings,
+      this.activity
+    )
   }
 
   /**
@@ -51,14 +112,28 @@ export class WorkRepository {
    * @returns A new WorkRepository instance with the specified user ID
    */
   withUser(userId: string): WorkRepository {
-    return new WorkRepository(this.db.withUser(userId))
+    return new WorkRepository(this.db.withUser(userId), this.options)
+  }
+
+  /**
+   * Creates a new WorkRepository instance whose changes are attributed to the given source
+   * in the activity log. Changes are attributed to tools unless specified otherwise.
+   * @param source The source of the changes
+   * @returns A new WorkRepository instance with the same user scope
+   */
+  withSource(source: WorkActivitySource): WorkRepository {
+    return new WorkRepository(this.db.withSource(source), this.options)
   }
 
   async initialize(): Promise<void> {
     await this.db.initialize()
   }
 
-  async listProjects(options: ListProjectsOptions = {}): Promise<WorkProject[]> {
+  async getSchemaVersion(): Promise<number> {
+    return this.db.getSchemaVersion()
+  }
+
+  async listProjects(options: ListProjectsOptions = {}): Promise<WorkPage<WorkProject>> {
     return this.projects.list(options)
   }
 
@@ -70,11 +145,19 @@ export class WorkRepository {
     return this.projects.upsert(id, input)
   }
 
+  async archiveProject(id: string): Promise<WorkProject | null> {
+    return this.projects.setArchived(id, true)
+  }
+
+  async unarchiveProject(id: string): Promise<WorkProject | null> {
+    return this.projects.setArchived(id, false)
+  }
+
   async deleteProject(id: string): Promise<boolean> {
     return this.projects.delete(id)
   }
 
-  async listTodos(options: ListTodosOptions = {}): Promise<WorkTodo[]> {
+  async listTodos(options: ListTodosOptions = {}): Promise<WorkPage<WorkTodo>> {
     return this.todos.list(options)
   }
 
@@ -82,8 +165,40 @@ export class WorkRepository {
     return this.todos.get(id)
   }
 
-  async upsertTodo(id: string | undefined, input: WorkTodoInput): Promise<WorkTodo> {
-    return this.todos.upsert(id, input)
+  async upsertTodo(
+    id: string | undefined,
+    input: WorkTodoInput,
+    options: UpsertTodoOptions = {}
+  ): Promise<WorkTodo> {
+    return this.todos.upsert(id, input, options)
+  }
+
+  async importTodos(entries: WorkTodoImport[], options: UpsertTodoOptions = {}): Promise<WorkTodo[]> {
+    return this.todos.importMany(entries, options)
+  }
+
+  async findTodoIdByIcalUid(uid: string): Promise<string | null> {
+    return this.todos.findIdByIcalUid(uid)
+  }
+
+  async cycleTodoStatus(id: string): Promise<WorkTodo | null> {
+    return this.todos.cycleStatus(id)
+  }
+
+  async snoozeTodo(id: string, snoozedUntil: string | null): Promise<WorkTodo | null> {
+    return this.todos.snooze(id, snoozedUntil)
+  }
+
+  async recordOverdueFollowUp(id: string): Promise<WorkTodo | null> {
+    return this.todos.recordOverdueFollowUp(id)
+  }
+
+  async addDependency(todoId: string, blockedById: string): Promise<boolean> {
+    return this.dependencies.add(todoId, blockedById)
+  }
+
+  async removeDependency(todoId: string, blockedById: string): Promise<boolean> {
+    return this.dependencies.remove(todoId, blockedById)
   }
 
   async deleteTodo(id: string): Promise<boolean> {
@@ -106,10 +221,30 @@ export class WorkRepository {
     return this.subItems.list(todoId)
   }
 
+  async getSubItem(todoId: string, subItemId: string): Promise<WorkSubItem | null> {
+    return this.subItems.get(todoId, subItemId)
+  }
+
+  async updateSubItem(
+    todoId: string,
+    subItemId: string,
+    input: WorkSubItemInput
+  ): Promise<WorkSubItem | null> {
+    return this.subItems.update(todoId, subItemId, input)
+  }
+
+  async reorderSubItems(todoId: string, subItemIds: string[]): Promise<boolean> {
+    return this.subItems.reorder(todoId, subItemIds)
+  }
+
   async toggleSubItem(todoId: string, subItemId: string): Promise<boolean> {
     return this.subItems.toggle(todoId, subItemId)
   }
 
+  async promoteSubItem(todoId: string, subItemId: string): Promise<WorkTodo | null> {
+    return this.todos.promoteSubItem(todoId, subItemId)
+  }
+
   async addComment(input: WorkCommentInput): Promise<WorkComment> {
     return this.comments.add(input)
   }
@@ -122,6 +257,85 @@ export class WorkRepository {
     return this.comments.list(todoId)
   }
 
+  async listTrash(): Promise<WorkTrashItem[]> {
+    const settings = await this.settings.get()
+    return this.trash.list(settings.trashRetentionDays)
+  }
+
+  async restoreFromTrash(kind: WorkTrashKind, id: string): Promise<boolean> {
+    return this.trash.restore(kind, id)
+  }
+
+  async purgeFromTrash(kind: WorkTrashKind, id: string): Promise<boolean> {
+    return this.trash.purge(kind, id)
+  }
+
+  /**
+   * Permanently removes everything in the trash.
+   * @returns The number of items removed
+   */
+  async emptyTrash(): Promise<number> {
+    return this.trash.purgeDeletedBefore()
+  }
+
+  /**
+   * Permanently removes items that have been in the trash longer than the retention period.
+   * @returns The number of items removed
+   */
+  async purgeExpiredTrash(now = new Date()): Promise<number> {
+    const { trashRetentionDays } = await this.settings.get()
+    if (trashRetentionDays === null) return 0
+    return this.trash.purgeExpired(trashRetentionDays, now)
+  }
+
+  /**
+   * Returns when the oldest item in the trash expires, or null if nothing will expire.
+   */
+  async getNextTrashPurgeAt(): Promise<string | null> {
+    const { trashRetentionDays } = await this.settings.get()
+    const oldest = await this.trash.getOldestDeletedAt()
+    return oldest ? resolvePurgeAt(oldest, trashRetentionDays) : null
+  }
+
+  async listActivity(options: ListActivityOptions = {}): Promise<WorkPage<WorkActivity>> {
+    return this.activity.list(options)
+  }
+
+  async search(options: SearchOptions): Promise<WorkSearchHit[]> {
+    return this.searchIndex.search(options)
+  }
+
+  async listTags(): Promise<WorkTag[]> {
+    return this.tags.list()
+  }
+
+  async renameTag(name: string, newName: string): Promise<WorkTag | null> {
+    return this.tags.rename(name, newName)
+  }
+
+  async mergeTags(sourceNames: string[], targetName: string): Promise<WorkTag> {
+    return this.tags.merge(sourceNames, targetName)
+  }
+
+  async deleteTag(name: string): Promise<boolean> {
+    return this.tags.delete(name)
+  }
+
+  /**
+   * Resolves the time zone for the current user: the settings override, then the profile.
+   * @returns An IANA time zone, or null if none is known or valid
+   */
+  async getTimeZone(): Promise<string | null> {
+    const settings = await this.settings.get()
+    if (settings.timezone && isValidTimeZone(settings.timezone)) return settings.timezone
+    try {
+      const profileTimeZone = this.options.profileTimeZone?.(this.db.getUserId())
+      return profileTimeZone && isValidTimeZone(profileTimeZone) ? profileTimeZone : null
+    } catch {
+      return null
+    }
+  }
+
   async getSettings(): Promise<WorkSettings> {
     return this.settings.get()
   }
@@ -130,6 +344,21 @@ export class WorkRepository {
     return this.settings.update(update)
   }
 
+  /**
+   * Lists the users with the daily digest turned on. Works without a user scope.
+   */
+  async listDigestUserIds(): Promise<string[]> {
+    return this.settings.listDigestUserIds()
+  }
+
+  async exportBackup(): Promise<WorkBackup> {
+    return this.backup.export()
+  }
+
+  async importBackup(backup: WorkBackup, mode: WorkBackupMode): Promise<WorkBackupImportResult> {
+    return this.backup.import(backup, mode)
+  }
+
   async listPanelGroups(): Promise<WorkPanelGroup[]> {
     return this.panel.listGroups()
   }
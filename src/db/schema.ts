@@ -4,14 +4,22 @@ export const workProjects = sqliteTable('ext_work_manager_projects', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'),
+  icon: text('icon').notNull().default('folder-01'),
+  color: text('color'),
+  status: text('status').notNull().default('active'),
+  startDate: text('start_date'),
+  deadline: text('deadline'),
+  archivedAt: text('archived_at'),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
+  deletedAt: text('deleted_at'),
 })
 
 export const workGroupState = sqliteTable('ext_work_manager_group_state', {
-  groupId: text('group_id').primaryKey(),
+  groupId: text('group_id').notNull(),
   collapsed: integer('collapsed', { mode: 'boolean' }).notNull().default(false),
   updatedAt: text('updated_at').notNull(),
+  userId: text('user_id').notNull(),
 })
 
 export const workTodos = sqliteTable('ext_work_manager_todos', {
@@ -21,13 +29,21 @@ export const workTodos = sqliteTable('ext_work_manager_todos', {
   description: text('description'),
   icon: text('icon').notNull(),
   status: text('status').notNull(),
+  priority: text('priority').notNull().default('none'),
   dueAt: text('due_at').notNull(),
   date: text('date').notNull(),
   time: text('time').notNull(),
   allDay: integer('all_day', { mode: 'boolean' }).notNull().default(false),
   reminderMinutes: integer('reminder_minutes'),
+  reminders: text('reminders'),
+  recurrence: text('recurrence'),
+  nextOccurrenceId: text('next_occurrence_id'),
+  snoozedUntil: text('snoozed_until'),
+  overdueFollowUps: integer('overdue_follow_ups').notNull().default(0),
+  icalUid: text('ical_uid'),
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
+  deletedAt: text('deleted_at'),
 })
 
 export const workSubItems = sqliteTable('ext_work_manager_subitems', {
@@ -47,6 +63,39 @@ export const workComments = sqliteTable('ext_work_manager_comments', {
   createdAt: text('created_at').notNull(),
 })
 
+export const workTags = sqliteTable('ext_work_manager_tags', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  userId: text('user_id').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+})
+
+export const workTodoTags = sqliteTable('ext_work_manager_todo_tags', {
+  todoId: text('todo_id').notNull(),
+  tagId: text('tag_id').notNull(),
+  userId: text('user_id').notNull(),
+})
+
+export const workTodoDependencies = sqliteTable('ext_work_manager_todo_dependencies', {
+  todoId: text('todo_id').notNull(),
+  dependsOnId: text('depends_on_id').notNull(),
+  userId: text('user_id').notNull(),
+  createdAt: text('created_at').notNull(),
+})
+
+export const workActivity = sqliteTable('ext_work_manager_activity', {
+  id: text('id').primaryKey(),
+  entityType: text('entity_type').notNull(),
+  entityId: text('entity_id').notNull(),
+  action: text('action').notNull(),
+  subjectId: text('subject_id'),
+  changes: text('changes').notNull(),
+  source: text('source').notNull(),
+  createdAt: text('created_at').notNull(),
+  userId: text('user_id').notNull(),
+})
+
 export const workSettings = sqliteTable('ext_work_manager_settings', {
   key: text('key').primaryKey(),
   value: text('value').notNull(),
@@ -57,3 +106,5 @@ export type WorkProjectRecord = typeof workProjects.$inferSelect
 export type WorkTodoRecord = typeof workTodos.$inferSelect
 export type WorkSubItemRecord = typeof workSubItems.$inferSelect
 export type WorkCommentRecord = typeof workComments.$inferSelect
+export type WorkTagRecord = typeof workTags.$inferSelect
+export type WorkActivityRecord = typeof workActivity.$inferSelect
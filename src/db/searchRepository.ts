@@ -0,0 +1,163 @@
+import type { SearchOptions, WorkSearchHit, WorkSearchKind, WorkTodoStatus } from '../types.js'
+import { normalizeQuery, resolvePage } from './utils.js'
+import type { WorkDb } from './workDb.js'
+
+const SEARCH_KINDS: WorkSearchKind[] = ['todo', 'comment', 'subitem']
+
+const SNIPPET_TOKENS = 12
+
+interface SearchRow {
+  kind: WorkSearchKind
+  entity_id: string
+  snippet: string
+  rank: number
+  todo_id: string
+  title: string
+  status: WorkTodoStatus
+  due_at: string
+  project_id: string | null
+  project_name: string | null
+}
+
+const mapSearchRow = (row: SearchRow): WorkSearchHit => ({
+  kind: row.kind,
+  id: row.entity_id,
+  snippet: row.snippet,
+  rank: row.rank,
+  todo: {
+    id: row.todo_id,
+    title: row.title,
+    status: row.status,
+    dueAt: row.due_at,
+  },
+  project:
+    row.project_id && row.project_name ? { id: row.project_id, name: row.project_name } : null,
+})
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix. Words are quoted
+ * so that FTS5 operators and punctuation in user input are taken literally.
+ */
+const toMatchQuery = (query: string): string | null => {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter(Boolean)
+  if (terms.length === 0) return null
+  return terms.map((term) => `"${term}"*`).join(' ')
+}
+
+/**
+ * Cuts a snippet of text around the first occurrence of a term, for the LIKE fallback.
+ */
+const buildSnippet = (text: string, term: string): string => {
+  const index = text.toLowerCase().indexOf(term)
+  if (index < 0) return text.slice(0, 80)
+  const start = Math.max(0, index - 30)
+  const end = Math.min(text.length, index + term.length + 50)
+  return `${start > 0 ? '…' : ''}${text.slice(start, index)}[${text.slice(index, index + term.length)}]${text.slice(index + term.length, end)}${end < text.length ? '…' : ''}`
+}
+
+export class SearchRepository {
+  private readonly db: WorkDb
+
+  constructor(db: WorkDb) {
+    this.db = db
+  }
+
+  /**
+   * Searches todo titles and descriptions, comments and subitems of the current user.
+   * Matching words are marked with [brackets] in the snippet.
+   * @returns Hits ordered by relevance
+   */
+  async search(options: SearchOptions): Promise<WorkSearchHit[]> {
+    await this.db.initialize()
+
+    const kinds = options.kinds?.length
+      ? SEARCH_KINDS.filter((kind) => options.kinds!.includes(kind))
+      : SEARCH_KINDS
+    const { limit, offset } = resolvePage(options.limit, options.offset, 20)
+
+    if (!this.db.hasSearchIndex()) {
+      return this.searchWithLike(options.query, kinds, limit, offset)
+    }
+
+    const match = toMatchQuery(options.query)
+    if (!match) return []
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<SearchRow>(
+      `SELECT s.kind, s.entity_id,
+         snippet(ext_work_manager_search, 4, '[', ']', '…', ${SNIPPET_TOKENS}) AS snippet,
+         bm25(ext_work_manager_search) AS rank,
+         t.id AS todo_id, t.title, t.status, t.due_at,
+         p.id AS project_id, p.name AS project_name
+       FROM ext_work_manager_search s
+       JOIN ext_work_manager_todos t ON t.id = s.todo_id AND t.user_id = s.user_id
+       LEFT JOIN ext_work_manager_projects p
+         ON p.id = t.project_id AND p.user_id = t.user_id AND p.deleted_at IS NULL
+       WHERE ext_work_manager_search MATCH ?
+         AND s.user_id = ?
+         AND t.deleted_at IS NULL
+         AND s.kind IN (${kinds.map(() => '?').join(', ')})
+       ORDER BY rank ASC
+       LIMIT ? OFFSET ?`,
+      [match, userId, ...kinds, limit, offset]
+    )
+
+    return rows.map(mapSearchRow)
+  }
+
+  /**
+   * Substring search used when the SQLite build lacks FTS5. Hits are ordered by kind and
+   * due date rather than relevance.
+   */
+  private async searchWithLike(
+    query: string,
+    kinds: WorkSearchKind[],
+    limit: number,
+    offset: number
+  ): Promise<WorkSearchHit[]> {
+    const term = normalizeQuery(query)
+    if (!term) return []
+
+    const userId = this.db.getUserId()
+    const pattern = `%${term}%`
+    const sources: Record<WorkSearchKind, string> = {
+      todo: `SELECT 'todo' AS kind, id AS entity_id, id AS todo_id,
+               title || char(10) || COALESCE(description, '') AS content, 0 AS kind_order
+             FROM ext_work_manager_todos
+             WHERE user_id = ? AND (LOWER(title) LIKE ? OR LOWER(description) LIKE ?)`,
+      comment: `SELECT 'comment', id, todo_id, text, 1
+                FROM ext_work_manager_comments
+                WHERE user_id = ? AND LOWER(text) LIKE ?`,
+      subitem: `SELECT 'subitem', id, todo_id, text, 2
+                FROM ext_work_manager_subitems
+                WHERE user_id = ? AND LOWER(text) LIKE ?`,
+    }
+
+    const params: unknown[] = []
+    for (const kind of kinds) {
+      params.push(userId, pattern)
+      if (kind === 'todo') params.push(pattern)
+    }
+
+    const rows = await this.db.execute<Omit<SearchRow, 'snippet' | 'rank'> & { content: string }>(
+      `SELECT m.kind, m.entity_id, m.content,
+         t.id AS todo_id, t.title, t.status, t.due_at,
+         p.id AS project_id, p.name AS project_name
+       FROM (${kinds.map((kind) => sources[kind]).join(' UNION ALL ')}) m
+       JOIN ext_work_manager_todos t ON t.id = m.todo_id AND t.user_id = ?
+       LEFT JOIN ext_work_manager_projects p
+         ON p.id = t.project_id AND p.user_id = t.user_id AND p.deleted_at IS NULL
+       WHERE t.deleted_at IS NULL
+       ORDER BY m.kind_order ASC, t.due_at ASC
+       LIMIT ? OFFSET ?`,
+      [...params, userId, limit, offset]
+    )
+
+    return rows.map((row, index) =>
+      mapSearchRow({ ...row, snippet: buildSnippet(row.content, term), rank: offset + index })
+    )
+  }
+}
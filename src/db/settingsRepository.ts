@@ -3,8 +3,15 @@ import type { WorkDb } from './workDb.js'
 
 const DEFAULT_SETTINGS: WorkSettings = {
   defaultReminderMinutes: null,
+  defaultReminders: [],
   allDayReminderTime: null,
   reminderLocale: null,
+  digestEnabled: false,
+  digestTime: null,
+  overdueFollowUpMinutes: null,
+  overdueFollowUpLimit: 3,
+  timezone: null,
+  trashRetentionDays: 30,
 }
 
 export class SettingsRepository {
@@ -29,20 +36,58 @@ export class SettingsRepository {
       if (row.key === 'defaultReminderMinutes') {
         settings.defaultReminderMinutes = JSON.parse(row.value) as number | null
       }
+      if (row.key === 'defaultReminders') {
+        settings.defaultReminders = JSON.parse(row.value) as number[]
+      }
       if (row.key === 'allDayReminderTime') {
         settings.allDayReminderTime = JSON.parse(row.value) as string | null
       }
       if (row.key === 'reminderLocale') {
         settings.reminderLocale = JSON.parse(row.value) as string | null
       }
+      if (row.key === 'digestEnabled') {
+        settings.digestEnabled = JSON.parse(row.value) as boolean
+      }
+      if (row.key === 'digestTime') {
+        settings.digestTime = JSON.parse(row.value) as string | null
+      }
+      if (row.key === 'overdueFollowUpMinutes') {
+        settings.overdueFollowUpMinutes = JSON.parse(row.value) as number | null
+      }
+      if (row.key === 'overdueFollowUpLimit') {
+        settings.overdueFollowUpLimit = JSON.parse(row.value) as number
+      }
+      if (row.key === 'timezone') {
+        settings.timezone = JSON.parse(row.value) as string | null
+      }
+      if (row.key === 'trashRetentionDays') {
+        settings.trashRetentionDays = JSON.parse(row.value) as number | null
+      }
     }
 
     return settings
   }
 
-  async update(update: WorkSettingsUpdate): Promise<WorkSettings> {
+  /**
+   * Lists the users who turned on the daily digest, across all users.
+   */
+  async listDigestUserIds(): Promise<string[]> {
     await this.db.initialize()
+    const rows = await this.db.execute<{ user_id: string }>(
+      `SELECT user_id FROM ext_work_manager_user_settings
+       WHERE key = 'digestEnabled' AND value = 'true'`
+    )
+    return rows.map((row) => row.user_id)
+  }
+
+  async update(update: WorkSettingsUpdate): Promise<WorkSettings> {
+    return this.db.transaction(() => this.save(update))
+  }
 
+  /**
+   * Update without its own transaction, for use inside one.
+   */
+  async save(update: WorkSettingsUpdate): Promise<WorkSettings> {
     const now = new Date().toISOString()
     const userId = this.db.getUserId()
     const current = await this.get()
@@ -51,18 +96,43 @@ export class SettingsRepository {
         update.defaultReminderMinutes !== undefined
           ? update.defaultReminderMinutes
           : current.defaultReminderMinutes,
+      defaultReminders:
+        update.defaultReminders !== undefined ? update.defaultReminders : current.defaultReminders,
       allDayReminderTime:
         update.allDayReminderTime !== undefined
           ? update.allDayReminderTime
           : current.allDayReminderTime,
       reminderLocale:
         update.reminderLocale !== undefined ? update.reminderLocale : current.reminderLocale,
+      digestEnabled:
+        update.digestEnabled !== undefined ? update.digestEnabled : current.digestEnabled,
+      digestTime: update.digestTime !== undefined ? update.digestTime : current.digestTime,
+      overdueFollowUpMinutes:
+        update.overdueFollowUpMinutes !== undefined
+          ? update.overdueFollowUpMinutes
+          : current.overdueFollowUpMinutes,
+      overdueFollowUpLimit:
+        update.overdueFollowUpLimit !== undefined
+          ? update.overdueFollowUpLimit
+          : current.overdueFollowUpLimit,
+      timezone: update.timezone !== undefined ? update.timezone : current.timezone,
+      trashRetentionDays:
+        update.trashRetentionDays !== undefined
+          ? update.trashRetentionDays
+          : current.trashRetentionDays,
     }
 
     const entries: Array<[string, string]> = [
       ['defaultReminderMinutes', JSON.stringify(next.defaultReminderMinutes)],
+      ['defaultReminders', JSON.stringify(next.defaultReminders)],
       ['allDayReminderTime', JSON.stringify(next.allDayReminderTime)],
       ['reminderLocale', JSON.stringify(next.reminderLocale)],
+      ['digestEnabled', JSON.stringify(next.digestEnabled)],
+      ['digestTime', JSON.stringify(next.digestTime)],
+      ['overdueFollowUpMinutes', JSON.stringify(next.overdueFollowUpMinutes)],
+      ['overdueFollowUpLimit', JSON.stringify(next.overdueFollowUpLimit)],
+      ['timezone', JSON.stringify(next.timezone)],
+      ['trashRetentionDays', JSON.stringify(next.trashRetentionDays)],
     ]
 
     for (const [key, value] of entries) {
@@ -1,60 +1,196 @@
-import type { WorkSubItem, WorkSubItemInput } from '../types.js'
+import type { WorkSubItem, WorkSubItemImport, WorkSubItemInput } from '../types.js'
+import { diffFields, type ActivityRepository } from './activityRepository.js'
 import { generateId } from './utils.js'
 import type { WorkDb } from './workDb.js'
 
 export class SubItemsRepository {
   private readonly db: WorkDb
+  private readonly activity: ActivityRepository
 
-  constructor(db: WorkDb) {
+  constructor(db: WorkDb, activity: ActivityRepository) {
     this.db = db
+    this.activity = activity
   }
 
   async add(input: WorkSubItemInput): Promise<WorkSubItem> {
-    await this.db.initialize()
+    return this.db.transaction(async () => {
+      if (!input.todoId || !input.text) {
+        throw new Error('Todo id and text are required')
+      }
+
+      const now = new Date().toISOString()
+      const subItemId = generateId('sub')
+      const sortOrder = input.sortOrder ?? 0
+      const userId = this.db.getUserId()
+
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_subitems (id, todo_id, text, completed_at, sort_order, created_at, updated_at, user_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [subItemId, input.todoId, input.text, null, sortOrder, now, now, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: input.todoId,
+        action: 'subitem_added',
+        subjectId: subItemId,
+        changes: [{ field: 'text', from: null, to: input.text }],
+      })
+
+      return {
+        id: subItemId,
+        todoId: input.todoId,
+        text: input.text,
+        completedAt: null,
+        sortOrder,
+        createdAt: now,
+        updatedAt: now,
+      }
+    })
+  }
 
-    if (!input.todoId || !input.text) {
-      throw new Error('Todo id and text are required')
+  /**
+   * Copies the subitems of a todo to another todo, unchecked. Runs inside the caller's
+   * transaction and leaves recording the activity to it.
+   */
+  async copy(fromTodoId: string, toTodoId: string): Promise<void> {
+    const now = new Date().toISOString()
+    const userId = this.db.getUserId()
+    for (const subItem of await this.list(fromTodoId)) {
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_subitems (id, todo_id, text, completed_at, sort_order, created_at, updated_at, user_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [generateId('sub'), toTodoId, subItem.text, null, subItem.sortOrder, now, now, userId]
+      )
     }
+  }
 
+  /**
+   * Appends subitems to a todo, keeping their completion state. Runs inside the caller's
+   * transaction and leaves recording the activity to it.
+   */
+  async append(todoId: string, items: WorkSubItemImport[]): Promise<void> {
     const now = new Date().toISOString()
-    const subItemId = generateId('sub')
-    const sortOrder = input.sortOrder ?? 0
     const userId = this.db.getUserId()
-
-    await this.db.execute(
-      `INSERT INTO ext_work_manager_subitems (id, todo_id, text, completed_at, sort_order, created_at, updated_at, user_id)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [subItemId, input.todoId, input.text, null, sortOrder, now, now, userId]
-    )
-
-    return {
-      id: subItemId,
-      todoId: input.todoId,
-      text: input.text,
-      completedAt: null,
-      sortOrder,
-      createdAt: now,
-      updatedAt: now,
+    const existing = await this.list(todoId)
+    let sortOrder = existing.reduce((max, subItem) => Math.max(max, subItem.sortOrder + 1), 0)
+    for (const item of items) {
+      await this.db.execute(
+        `INSERT INTO ext_work_manager_subitems (id, todo_id, text, completed_at, sort_order, created_at, updated_at, user_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          generateId('sub'),
+          todoId,
+          item.text,
+          item.completed ? now : null,
+          sortOrder++,
+          now,
+          now,
+          userId,
+        ]
+      )
     }
   }
 
   async delete(todoId: string, subItemId: string): Promise<boolean> {
-    await this.db.initialize()
-
-    const userId = this.db.getUserId()
-    const rows = await this.db.execute<{ id: string }>(
-      `SELECT id FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [subItemId, todoId, userId]
-    )
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ text: string }>(
+        `SELECT text FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [subItemId, todoId, userId]
+      )
+
+      const row = rows[0]
+      if (!row) return false
+
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [subItemId, todoId, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'subitem_deleted',
+        subjectId: subItemId,
+        changes: [{ field: 'text', from: row.text, to: null }],
+      })
+
+      return true
+    })
+  }
 
-    if (rows.length === 0) return false
+  async get(todoId: string, subItemId: string): Promise<WorkSubItem | null> {
+    const subItems = await this.list(todoId)
+    return subItems.find((subItem) => subItem.id === subItemId) ?? null
+  }
 
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [subItemId, todoId, userId]
-    )
+  async update(
+    todoId: string,
+    subItemId: string,
+    input: WorkSubItemInput
+  ): Promise<WorkSubItem | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.get(todoId, subItemId)
+      if (!existing) return null
+
+      const now = new Date().toISOString()
+      const userId = this.db.getUserId()
+      const text = input.text ?? existing.text
+      const sortOrder = input.sortOrder ?? existing.sortOrder
+
+      await this.db.execute(
+        `UPDATE ext_work_manager_subitems SET text = ?, sort_order = ?, updated_at = ? WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [text, sortOrder, now, subItemId, todoId, userId]
+      )
+
+      const updated = { ...existing, text, sortOrder, updatedAt: now }
+      const changes = diffFields(existing, updated, ['text', 'sortOrder'])
+      if (changes.length > 0) {
+        await this.activity.record({
+          entityType: 'todo',
+          entityId: todoId,
+          action: 'subitem_updated',
+          subjectId: subItemId,
+          changes,
+        })
+      }
+
+      return updated
+    })
+  }
 
-    return true
+  /**
+   * Rewrites sort orders so the given subitems come first, in the given order.
+   * Subitems not listed keep their relative order after them.
+   * @returns False if any listed subitem does not belong to the todo
+   */
+  async reorder(todoId: string, subItemIds: string[]): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const existing = await this.list(todoId)
+      const existingIds = new Set(existing.map((subItem) => subItem.id))
+      if (subItemIds.some((id) => !existingIds.has(id))) return false
+
+      const ordered = [
+        ...subItemIds,
+        ...existing.map((subItem) => subItem.id).filter((id) => !subItemIds.includes(id)),
+      ]
+
+      const now = new Date().toISOString()
+      const userId = this.db.getUserId()
+      for (const [index, id] of ordered.entries()) {
+        await this.db.execute(
+          `UPDATE ext_work_manager_subitems SET sort_order = ?, updated_at = ? WHERE id = ? AND todo_id = ? AND user_id = ?`,
+          [index, now, id, todoId, userId]
+        )
+      }
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'subitems_reordered',
+        changes: [{ field: 'order', from: existing.map((subItem) => subItem.id), to: ordered }],
+      })
+
+      return true
+    })
   }
 
   async list(todoId: string): Promise<WorkSubItem[]> {
@@ -89,24 +225,31 @@ export class SubItemsRepository {
   }
 
   async toggle(todoId: string, subItemId: string): Promise<boolean> {
-    await this.db.initialize()
-
-    const userId = this.db.getUserId()
-    const rows = await this.db.execute<{ completed_at: string | null }>(
-      `SELECT completed_at FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [subItemId, todoId, userId]
-    )
-
-    const row = rows[0]
-    if (!row) return false
-
-    const nextValue = row.completed_at ? null : new Date().toISOString()
-
-    await this.db.execute(
-      `UPDATE ext_work_manager_subitems SET completed_at = ?, updated_at = ? WHERE id = ? AND todo_id = ? AND user_id = ?`,
-      [nextValue, new Date().toISOString(), subItemId, todoId, userId]
-    )
-
-    return true
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ completed_at: string | null }>(
+        `SELECT completed_at FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [subItemId, todoId, userId]
+      )
+
+      const row = rows[0]
+      if (!row) return false
+
+      const nextValue = row.completed_at ? null : new Date().toISOString()
+
+      await this.db.execute(
+        `UPDATE ext_work_manager_subitems SET completed_at = ?, updated_at = ? WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [nextValue, new Date().toISOString(), subItemId, todoId, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'subitem_updated',
+        subjectId: subItemId,
+        changes: [{ field: 'completed', from: Boolean(row.completed_at), to: Boolean(nextValue) }],
+      })
+
+      return true
+    })
   }
 }
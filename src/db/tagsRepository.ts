@@ -0,0 +1,263 @@
+import type { WorkTag } from '../types.js'
+import { generateId } from './utils.js'
+import type { WorkDb } from './workDb.js'
+
+interface TagRow {
+  id: string
+  name: string
+  todo_count: number | null
+  created_at: string
+  updated_at: string
+}
+
+const mapTagRow = (row: TagRow): WorkTag => ({
+  id: row.id,
+  name: row.name,
+  todoCount: row.todo_count ?? 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+/**
+ * Normalizes tag names: trims, collapses whitespace, strips a leading "#" and drops
+ * empty or duplicate (case-insensitive) names.
+ */
+export const normalizeTagNames = (names: unknown[]): string[] => {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const entry of names) {
+    if (typeof entry !== 'string') continue
+    const name = entry.trim().replace(/^#/, '').replace(/\s+/g, ' ')
+    if (!name || seen.has(name.toLowerCase())) continue
+    seen.add(name.toLowerCase())
+    result.push(name)
+  }
+  return result
+}
+
+export class TagsRepository {
+  private readonly db: WorkDb
+
+  constructor(db: WorkDb) {
+    this.db = db
+  }
+
+  async list(): Promise<WorkTag[]> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<TagRow>(
+      `SELECT t.id, t.name, t.created_at, t.updated_at, COUNT(tt.todo_id) AS todo_count
+       FROM ext_work_manager_tags t
+       LEFT JOIN ext_work_manager_todo_tags tt ON tt.tag_id = t.id AND tt.user_id = t.user_id
+         AND tt.todo_id IN (SELECT id FROM ext_work_manager_todos WHERE deleted_at IS NULL)
+       WHERE t.user_id = ?
+       GROUP BY t.id
+       ORDER BY t.name COLLATE NOCASE ASC`,
+      [userId]
+    )
+
+    return rows.map(mapTagRow)
+  }
+
+  /**
+   * Finds a tag by name, ignoring case.
+   */
+  async findByName(name: string): Promise<WorkTag | null> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<TagRow>(
+      `SELECT t.id, t.name, t.created_at, t.updated_at,
+         (SELECT COUNT(*) FROM ext_work_manager_todo_tags tt
+          JOIN ext_work_manager_todos todo ON todo.id = tt.todo_id AND todo.deleted_at IS NULL
+          WHERE tt.tag_id = t.id AND tt.user_id = t.user_id) AS todo_count
+       FROM ext_work_manager_tags t
+       WHERE t.user_id = ? AND LOWER(t.name) = LOWER(?)`,
+      [userId, name.trim()]
+    )
+
+    const row = rows[0]
+    return row ? mapTagRow(row) : null
+  }
+
+  /**
+   * Returns the tag names of a todo, sorted alphabetically.
+   */
+  async listForTodo(todoId: string): Promise<string[]> {
+    const tags = await this.listForTodos([todoId])
+    return tags.get(todoId) ?? []
+  }
+
+  /**
+   * Returns tag names for several todos at once, keyed by todo ID.
+   */
+  async listForTodos(todoIds: string[]): Promise<Map<string, string[]>> {
+    await this.db.initialize()
+
+    const result = new Map<string, string[]>()
+    if (todoIds.length === 0) return result
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<{ todo_id: string; name: string }>(
+      `SELECT tt.todo_id, t.name
+       FROM ext_work_manager_todo_tags tt
+       JOIN ext_work_manager_tags t ON t.id = tt.tag_id
+       WHERE tt.user_id = ? AND tt.todo_id IN (${todoIds.map(() => '?').join(', ')})
+       ORDER BY t.name COLLATE NOCASE ASC`,
+      [userId, ...todoIds]
+    )
+
+    for (const row of rows) {
+      const entry = result.get(row.todo_id) ?? []
+      entry.push(row.name)
+      result.set(row.todo_id, entry)
+    }
+
+    return result
+  }
+
+  /**
+   * Replaces the tags of a todo, creating tags that do not exist yet.
+   * @returns The todo's tag names, sorted alphabetically
+   */
+  async setForTodo(todoId: string, names: string[]): Promise<string[]> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const tagIds: string[] = []
+    for (const name of normalizeTagNames(names)) {
+      const tag = (await this.findByName(name)) ?? (await this.create(name))
+      tagIds.push(tag.id)
+    }
+
+    await this.db.execute(
+      `DELETE FROM ext_work_manager_todo_tags WHERE todo_id = ? AND user_id = ?`,
+      [todoId, userId]
+    )
+
+    for (const tagId of tagIds) {
+      await this.db.execute(
+        `INSERT OR IGNORE INTO ext_work_manager_todo_tags (todo_id, tag_id, user_id)
+         VALUES (?, ?, ?)`,
+        [todoId, tagId, userId]
+      )
+    }
+
+    return this.listForTodo(todoId)
+  }
+
+  /**
+   * Renames a tag. Fails if another tag already has the new name; use merge for that.
+   * @returns The renamed tag, or null if it does not exist
+   */
+  async rename(name: string, newName: string): Promise<WorkTag | null> {
+    return this.db.transaction(async () => {
+      const [normalized] = normalizeTagNames([newName])
+      if (!normalized) {
+        throw new Error('New tag name is required')
+      }
+
+      const tag = await this.findByName(name)
+      if (!tag) return null
+
+      const conflict = await this.findByName(normalized)
+      if (conflict && conflict.id !== tag.id) {
+        throw new Error(`Tag "${conflict.name}" already exists; merge the tags instead`)
+      }
+
+      const now = new Date().toISOString()
+      const userId = this.db.getUserId()
+      await this.db.execute(
+        `UPDATE ext_work_manager_tags SET name = ?, updated_at = ? WHERE id = ? AND user_id = ?`,
+        [normalized, now, tag.id, userId]
+      )
+
+      return { ...tag, name: normalized, updatedAt: now }
+    })
+  }
+
+  /**
+   * Moves every todo tagged with one of the source tags to the target tag and deletes the
+   * source tags. The target tag is created if it does not exist.
+   * @returns The target tag
+   */
+  async merge(sourceNames: string[], targetName: string): Promise<WorkTag> {
+    return this.db.transaction(async () => {
+      const [normalizedTarget] = normalizeTagNames([targetName])
+      if (!normalizedTarget) {
+        throw new Error('Target tag name is required')
+      }
+
+      const userId = this.db.getUserId()
+      const target = (await this.findByName(normalizedTarget)) ?? (await this.create(normalizedTarget))
+
+      for (const sourceName of normalizeTagNames(sourceNames)) {
+        const source = await this.findByName(sourceName)
+        if (!source || source.id === target.id) continue
+
+        await this.db.execute(
+          `INSERT OR IGNORE INTO ext_work_manager_todo_tags (todo_id, tag_id, user_id)
+           SELECT todo_id, ?, user_id FROM ext_work_manager_todo_tags
+           WHERE tag_id = ? AND user_id = ?`,
+          [target.id, source.id, userId]
+        )
+        await this.deleteById(source.id)
+      }
+
+      return (await this.findByName(target.name)) ?? target
+    })
+  }
+
+  /**
+   * Deletes a tag and removes it from all todos.
+   */
+  async delete(name: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const tag = await this.findByName(name)
+      if (!tag) return false
+
+      await this.deleteById(tag.id)
+      return true
+    })
+  }
+
+  /**
+   * Removes all tag links of a todo, e.g. when the todo is deleted.
+   */
+  async clearTodo(todoId: string): Promise<void> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    await this.db.execute(
+      `DELETE FROM ext_work_manager_todo_tags WHERE todo_id = ? AND user_id = ?`,
+      [todoId, userId]
+    )
+  }
+
+  private async create(name: string): Promise<WorkTag> {
+    const now = new Date().toISOString()
+    const tagId = generateId('tag')
+    const userId = this.db.getUserId()
+
+    await this.db.execute(
+      `INSERT INTO ext_work_manager_tags (id, name, user_id, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [tagId, name, userId, now, now]
+    )
+
+    return { id: tagId, name, todoCount: 0, createdAt: now, updatedAt: now }
+  }
+
+  private async deleteById(tagId: string): Promise<void> {
+    const userId = this.db.getUserId()
+    await this.db.execute(
+      `DELETE FROM ext_work_manager_todo_tags WHERE tag_id = ? AND user_id = ?`,
+      [tagId, userId]
+    )
+    await this.db.execute(
+      `DELETE FROM ext_work_manager_tags WHERE id = ? AND user_id = ?`,
+      [tagId, userId]
+    )
+  }
+}
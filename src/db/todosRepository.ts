@@ -1,27 +1,240 @@
-import type { ListTodosOptions, WorkTodo, WorkTodoInput, WorkTodoStatus } from '../types.js'
+import { computeNextOccurrence } from '../recurrence.js'
+import type {
+  ListTodosOptions,
+  UpsertTodoOptions,
+  WorkPage,
+  WorkTodo,
+  WorkTodoImport,
+  WorkTodoInput,
+  WorkTodoPriority,
+  WorkTodoRecurrence,
+  WorkTodoSortField,
+  WorkTodoStatus,
+} from '../types.js'
+import { formatZonedDate, resolveUtcOffset } from '../timezone.js'
+import { diffFields, initialFields, type ActivityRepository } from './activityRepository.js'
+import { PRIORITY_RANK } from './constants.js'
 import type { CommentsRepository } from './commentsRepository.js'
+import type { DependenciesRepository } from './dependenciesRepository.js'
+import type { ProjectsRepository } from './projectsRepository.js'
 import type { SubItemsRepository } from './subItemsRepository.js'
-import { deriveDateTime, generateId, normalizeOptionalString, normalizeQuery } from './utils.js'
+import { normalizeTagNames, type TagsRepository } from './tagsRepository.js'
+import {
+  decodeCursor,
+  deriveDateTime,
+  encodeCursor,
+  generateId,
+  normalizeOptionalString,
+  normalizeQuery,
+  resolvePage,
+} from './utils.js'
 import type { WorkDb } from './workDb.js'
 
+/** Todos of a trashed project read as having no project; restoring the project relinks them. */
+const TODO_PROJECT_ID_SQL = `(SELECT p.id FROM ext_work_manager_projects p
+  WHERE p.id = ext_work_manager_todos.project_id AND p.user_id = ext_work_manager_todos.user_id
+    AND p.deleted_at IS NULL)`
+
+const IN_ARCHIVED_PROJECT_SQL = `EXISTS (SELECT 1 FROM ext_work_manager_projects p
+  WHERE p.id = ext_work_manager_todos.project_id AND p.user_id = ext_work_manager_todos.user_id
+    AND p.deleted_at IS NULL AND p.archived_at IS NOT NULL)`
+
+const TODO_COLUMNS = `id, ${TODO_PROJECT_ID_SQL} AS project_id, title, description, icon, status, priority, due_at, date, time, all_day, reminder_minutes, reminders, recurrence, next_occurrence_id, snoozed_until, overdue_follow_ups, created_at, updated_at`
+
+interface TodoRow {
+  id: string
+  project_id: string | null
+  title: string
+  description: string | null
+  icon: string
+  status: WorkTodoStatus
+  priority: WorkTodoPriority | null
+  due_at: string
+  date: string
+  time: string
+  all_day: number
+  reminder_minutes: number | null
+  reminders: string | null
+  recurrence: string | null
+  next_occurrence_id: string | null
+  snoozed_until: string | null
+  overdue_follow_ups: number | null
+  created_at: string
+  updated_at: string
+}
+
+const parseReminders = (value: string | null): number[] | null => {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as number[]
+  } catch {
+    return null
+  }
+}
+
+const parseRecurrence = (value: string | null): WorkTodoRecurrence | null => {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as WorkTodoRecurrence
+  } catch {
+    return null
+  }
+}
+
+const mapTodoRow = (row: TodoRow): WorkTodo => ({
+  id: row.id,
+  projectId: row.project_id ?? null,
+  title: row.title,
+  description: row.description ?? undefined,
+  icon: row.icon,
+  status: row.status,
+  priority: row.priority ?? 'none',
+  dueAt: row.due_at,
+  date: row.date,
+  time: row.time,
+  allDay: !!row.all_day,
+  reminderMinutes: row.reminder_minutes,
+  reminders: parseReminders(row.reminders),
+  recurrence: parseRecurrence(row.recurrence),
+  nextOccurrenceId: row.next_occurrence_id ?? null,
+  snoozedUntil: row.snoozed_until ?? null,
+  overdueFollowUps: row.overdue_follow_ups ?? 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+/** SQL expression ranking todos by priority (higher is more urgent). */
+const PRIORITY_ORDER_SQL = `CASE priority ${Object.entries(PRIORITY_RANK)
+  .map(([priority, rank]) => `WHEN '${priority}' THEN ${rank}`)
+  .join(' ')} ELSE 0 END`
+
+/** SQL expression ordering todos from not started to cancelled. */
+const STATUS_ORDER_SQL = `CASE status WHEN 'not_started' THEN 0 WHEN 'in_progress' THEN 1 WHEN 'completed' THEN 2 WHEN 'cancelled' THEN 3 ELSE 4 END`
+
+/** SQL expressions for the fields todos can be sorted by. */
+const SORT_SQL: Record<WorkTodoSortField, string> = {
+  dueAt: 'COALESCE(julianday(due_at), 0)',
+  priority: PRIORITY_ORDER_SQL,
+  title: 'title COLLATE NOCASE',
+  status: STATUS_ORDER_SQL,
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+}
+
+/**
+ * SQL condition comparing the due date with a bound. A date-only bound is a day in the
+ * user's time zone: timed todos compare from the start of that day there, all-day todos by
+ * their date, as the overdue filter does.
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const dueBoundCondition = (
+  operator: '>=' | '<',
+  bound: string,
+  timeZone: string | null
+): { sql: string; params: string[] } => {
+  if (!DATE_ONLY_PATTERN.test(bound)) {
+    return { sql: `julianday(due_at) ${operator} julianday(?)`, params: [bound] }
+  }
+  const start = `${bound}T00:00:00${resolveUtcOffset(bound, '00:00', timeZone)}`
+  return {
+    sql: `((all_day = 0 AND julianday(due_at) ${operator} julianday(?)) OR (all_day = 1 AND date ${operator} ?))`,
+    params: [start, bound],
+  }
+}
+
+/** SQL condition matching open todos past their due date; all-day todos are overdue from the next day. */
+const OVERDUE_SQL = `(status IN ('not_started', 'in_progress') AND ((all_day = 0 AND julianday(due_at) < julianday(?)) OR (all_day = 1 AND date < ?)))`
+
+/** Status order used when cycling a todo's status from the panel. */
+const NEXT_STATUS: Record<WorkTodoStatus, WorkTodoStatus> = {
+  not_started: 'in_progress',
+  in_progress: 'completed',
+  completed: 'not_started',
+  cancelled: 'not_started',
+}
+
+const isClosedStatus = (status: WorkTodoStatus): boolean => {
+  return status === 'completed' || status === 'cancelled'
+}
+
+/** Fields whose changes are recorded in the activity log. */
+const TRACKED_FIELDS: Array<keyof WorkTodo & string> = [
+  'title',
+  'status',
+  'priority',
+  'projectId',
+  'description',
+  'icon',
+  'dueAt',
+  'allDay',
+  'reminderMinutes',
+  'reminders',
+  'recurrence',
+  'tags',
+  'snoozedUntil',
+]
+
 export class TodosRepository {
   private readonly db: WorkDb
   private readonly comments: CommentsRepository
   private readonly subItems: SubItemsRepository
-
-  constructor(db: WorkDb, comments: CommentsRepository, subItems: SubItemsRepository) {
+  private readonly tags: TagsRepository
+  private readonly dependencies: DependenciesRepository
+  private readonly projects: ProjectsRepository
+  private readonly activity: ActivityRepository
+  private readonly resolveTimeZone: () => Promise<string | null>
+
+  constructor(
+    db: WorkDb,
+    comments: CommentsRepository,
+    subItems: SubItemsRepository,
+    tags: TagsRepository,
+    dependencies: DependenciesRepository,
+    projects: ProjectsRepository,
+    activity: ActivityRepository,
+    resolveTimeZone: () => Promise<string | null> = async () => null
+  ) {
     this.db = db
     this.comments = comments
     this.subItems = subItems
+    this.tags = tags
+    this.dependencies = dependencies
+    this.projects = projects
+    this.activity = activity
+    this.resolveTimeZone = resolveTimeZone
   }
 
-  async list(options: ListTodosOptions = {}): Promise<WorkTodo[]> {
+  /**
+   * Lists todos matching the filters, one page at a time. Pages can be fetched by offset or,
+   * to stay stable while todos change, by the cursor returned with the previous page.
+   */
+  async list(options: ListTodosOptions = {}): Promise<WorkPage<WorkTodo>> {
     await this.db.initialize()
 
-    const { query, projectId, status, limit = 50, offset = 0 } = options
+    const {
+      query,
+      projectId,
+      projectIds,
+      status,
+      statuses,
+      priority,
+      tags,
+      tagMatch = 'any',
+      dueAfter,
+      dueBefore,
+      overdue,
+      allDay,
+      updatedSince,
+      includeArchived = false,
+      sort = 'dueAt',
+      sortDirection,
+      cursor,
+    } = options
+    const { limit, offset } = resolvePage(options.limit, options.offset, 50)
     const userId = this.db.getUserId()
     const params: unknown[] = [userId]
-    const conditions: string[] = ['user_id = ?']
+    const conditions: string[] = ['user_id = ?', 'deleted_at IS NULL']
 
     if (query) {
       const normalized = `%${normalizeQuery(query)}%`
@@ -29,111 +242,185 @@ export class TodosRepository {
       params.push(normalized, normalized)
     }
 
+    // Match the project ID the todos report, so a trashed project's todos are left out
     if (projectId) {
-      conditions.push(`project_id = ?`)
+      conditions.push(`${TODO_PROJECT_ID_SQL} = ?`)
       params.push(projectId)
     }
 
+    if (projectIds && projectIds.length > 0) {
+      conditions.push(`${TODO_PROJECT_ID_SQL} IN (${projectIds.map(() => '?').join(', ')})`)
+      params.push(...projectIds)
+    }
+
+    if (!includeArchived && !projectId && !(projectIds && projectIds.length > 0)) {
+      conditions.push(`NOT ${IN_ARCHIVED_PROJECT_SQL}`)
+    }
+
     if (status) {
       conditions.push(`status = ?`)
       params.push(status)
     }
 
-    let sql = `SELECT id, project_id, title, description, icon, status, due_at, date, time, all_day, reminder_minutes, created_at, updated_at
+    if (statuses && statuses.length > 0) {
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`)
+      params.push(...statuses)
+    }
+
+    const timeZone = dueAfter || dueBefore || overdue !== undefined ? await this.resolveTimeZone() : null
+
+    for (const [operator, bound] of [
+      ['>=', dueAfter],
+      ['<', dueBefore],
+    ] as const) {
+      if (!bound) continue
+      const condition = dueBoundCondition(operator, bound, timeZone)
+      conditions.push(condition.sql)
+      params.push(...condition.params)
+    }
+
+    if (overdue !== undefined) {
+      const now = new Date()
+      const today = timeZone ? formatZonedDate(now, timeZone) : now.toISOString().slice(0, 10)
+      conditions.push(overdue ? OVERDUE_SQL : `NOT ${OVERDUE_SQL}`)
+      params.push(now.toISOString(), today)
+    }
+
+    if (allDay !== undefined) {
+      conditions.push(`all_day = ?`)
+      params.push(allDay ? 1 : 0)
+    }
+
+    if (updatedSince) {
+      conditions.push(`julianday(updated_at) >= julianday(?)`)
+      params.push(updatedSince)
+    }
+
+    if (priority) {
+      conditions.push(`priority = ?`)
+      params.push(priority)
+    }
+
+    const tagNames = normalizeTagNames(tags ?? []).map((name) => name.toLowerCase())
+    if (tagNames.length > 0) {
+      // "all" requires a distinct match for every requested tag
+      conditions.push(
+        `id IN (
+          SELECT tt.todo_id
+          FROM ext_work_manager_todo_tags tt
+          JOIN ext_work_manager_tags t ON t.id = tt.tag_id
+          WHERE tt.user_id = ? AND LOWER(t.name) IN (${tagNames.map(() => '?').join(', ')})
+          GROUP BY tt.todo_id
+          HAVING COUNT(DISTINCT t.id) >= ?
+        )`
+      )
+      params.push(userId, ...tagNames, tagMatch === 'all' ? tagNames.length : 1)
+    }
+
+    const [{ total }] = await this.db.execute<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM ext_work_manager_todos WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    // Rows are ordered by the sort key, then due date, then id, so (sort key, due key, id)
+    // identifies a position for keyset pagination
+    const direction = sortDirection ?? (sort === 'priority' ? 'desc' : 'asc')
+    const sortKey = SORT_SQL[sort]
+    const dueKey = SORT_SQL.dueAt
+    const scope = `todos:${sort}:${direction}`
+    const comparator = direction === 'desc' ? '<' : '>'
+
+    if (cursor) {
+      const [cursorSort, cursorDue, cursorId] = decodeCursor(cursor, scope, 3)
+      conditions.push(
+        `(${sortKey} ${comparator} ? OR (${sortKey} = ? AND ${dueKey} > ?) OR (${sortKey} = ? AND ${dueKey} = ? AND id > ?))`
+      )
+      params.push(cursorSort, cursorSort, cursorDue, cursorSort, cursorDue, cursorId)
+    }
+
+    const rows = await this.db.execute<TodoRow & { sort_key: unknown; due_key: number }>(
+      `SELECT ${TODO_COLUMNS}, ${sortKey} AS sort_key, ${dueKey} AS due_key
        FROM ext_work_manager_todos
-       WHERE ${conditions.join(' AND ')}`
-
-    sql += ` ORDER BY due_at ASC LIMIT ? OFFSET ?`
-    params.push(limit, offset)
-
-    const rows = await this.db.execute<{
-      id: string
-      project_id: string | null
-      title: string
-      description: string | null
-      icon: string
-      status: WorkTodoStatus
-      due_at: string
-      date: string
-      time: string
-      all_day: number
-      reminder_minutes: number | null
-      created_at: string
-      updated_at: string
-    }>(sql, params)
-
-    return rows.map((row) => ({
-      id: row.id,
-      projectId: row.project_id ?? null,
-      title: row.title,
-      description: row.description ?? undefined,
-      icon: row.icon,
-      status: row.status,
-      dueAt: row.due_at,
-      date: row.date,
-      time: row.time,
-      allDay: !!row.all_day,
-      reminderMinutes: row.reminder_minutes,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }))
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${sortKey} ${direction.toUpperCase()}, ${dueKey} ASC, id ASC
+       LIMIT ? OFFSET ?`,
+      [...params, limit + 1, cursor ? 0 : offset]
+    )
+
+    const hasMore = rows.length > limit
+    const pageRows = rows.slice(0, limit)
+    const last = pageRows[pageRows.length - 1]
+    const todoIds = pageRows.map((row) => row.id)
+    const [tagsByTodo, blockedIds] = await Promise.all([
+      this.tags.listForTodos(todoIds),
+      this.dependencies.listBlockedTodoIds(todoIds),
+    ])
+
+    return {
+      items: pageRows.map((row) => ({
+        ...mapTodoRow(row),
+        tags: tagsByTodo.get(row.id) ?? [],
+        blocked: blockedIds.has(row.id),
+      })),
+      total: Number(total ?? 0),
+      hasMore,
+      nextCursor:
+        hasMore && last ? encodeCursor(scope, [last.sort_key, last.due_key, last.id]) : null,
+    }
   }
 
   async get(id: string): Promise<WorkTodo | null> {
     await this.db.initialize()
 
     const userId = this.db.getUserId()
-    const rows = await this.db.execute<{
-      id: string
-      project_id: string | null
-      title: string
-      description: string | null
-      icon: string
-      status: WorkTodoStatus
-      due_at: string
-      date: string
-      time: string
-      all_day: number
-      reminder_minutes: number | null
-      created_at: string
-      updated_at: string
-    }>(
-      `SELECT id, project_id, title, description, icon, status, due_at, date, time, all_day, reminder_minutes, created_at, updated_at
+    const rows = await this.db.execute<TodoRow>(
+      `SELECT ${TODO_COLUMNS}
        FROM ext_work_manager_todos
-       WHERE id = ? AND user_id = ?`,
+       WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
       [id, userId]
     )
 
     const row = rows[0]
     if (!row) return null
 
-    const [comments, subItems] = await Promise.all([
+    const [comments, subItems, tags, blockedBy, blockedIds] = await Promise.all([
       this.comments.list(id),
       this.subItems.list(id),
+      this.tags.listForTodo(id),
+      this.dependencies.listBlockerIds(id),
+      this.dependencies.listBlockedTodoIds([id]),
     ])
 
     return {
-      id: row.id,
-      projectId: row.project_id ?? null,
-      title: row.title,
-      description: row.description ?? undefined,
-      icon: row.icon,
-      status: row.status,
-      dueAt: row.due_at,
-      date: row.date,
-      time: row.time,
-      allDay: !!row.all_day,
-      reminderMinutes: row.reminder_minutes,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      ...mapTodoRow(row),
+      tags,
+      blockedBy,
+      blocked: blockedIds.has(id),
       comments,
       subItems,
     }
   }
 
-  async upsert(id: string | undefined, input: WorkTodoInput): Promise<WorkTodo> {
-    await this.db.initialize()
+  /**
+   * Creates or updates a todo. Completing a todo with active blockers fails unless
+   * `options.ignoreBlockers` is set.
+   */
+  async upsert(
+    id: string | undefined,
+    input: WorkTodoInput,
+    options: UpsertTodoOptions = {}
+  ): Promise<WorkTodo> {
+    return this.db.transaction(() => this.save(id, input, options))
+  }
 
+  /**
+   * Upsert without its own transaction, for use inside one.
+   */
+  private async save(
+    id: string | undefined,
+    input: WorkTodoInput,
+    options: UpsertTodoOptions = {}
+  ): Promise<WorkTodo> {
     const now = new Date().toISOString()
     const userId = this.db.getUserId()
     const normalizedId = normalizeOptionalString(id)
@@ -144,6 +431,18 @@ export class TodosRepository {
     if (existing) {
       const projectId =
         normalizedProjectId === undefined ? existing.projectId ?? null : normalizedProjectId
+      const dueAtChanged = input.dueAt !== undefined && input.dueAt !== existing.dueAt
+
+      if (input.status === 'completed' && existing.status !== 'completed' && !options.ignoreBlockers) {
+        const blockers = await this.dependencies.listActiveBlockers(todoId)
+        if (blockers.length > 0) {
+          const titles = blockers.map((blocker) => `"${blocker.title}"`).join(', ')
+          throw new Error(
+            `Todo is blocked by ${titles}. Complete those first, or set ignoreBlockers to complete it anyway.`
+          )
+        }
+      }
+
       const merged: WorkTodo = {
         ...existing,
         projectId,
@@ -151,45 +450,101 @@ export class TodosRepository {
         description: input.description ?? existing.description ?? undefined,
         icon: input.icon ?? existing.icon,
         status: input.status ?? existing.status,
+        priority: input.priority ?? existing.priority,
         dueAt: input.dueAt ?? existing.dueAt,
-        date: input.date ?? existing.date,
-        time: input.time ?? existing.time,
+        // A new due date re-derives date/time unless they are given explicitly
+        date: input.date ?? (dueAtChanged ? '' : existing.date),
+        time: input.time ?? (dueAtChanged ? '' : existing.time),
         allDay: input.allDay ?? existing.allDay,
         reminderMinutes:
           input.reminderMinutes !== undefined ? input.reminderMinutes : existing.reminderMinutes,
+        // Setting a single reminder replaces an existing list unless a new list is given
+        reminders:
+          input.reminders !== undefined
+            ? input.reminders
+            : input.reminderMinutes !== undefined
+              ? null
+              : existing.reminders ?? null,
+        recurrence: input.recurrence !== undefined ? input.recurrence : existing.recurrence,
+        // A new due date replaces any pending snooze and restarts overdue follow-ups
+        snoozedUntil: dueAtChanged ? null : existing.snoozedUntil ?? null,
+        overdueFollowUps: dueAtChanged ? 0 : existing.overdueFollowUps ?? 0,
         createdAt: existing.createdAt,
         updatedAt: now,
       }
 
-      const derived = deriveDateTime(merged.dueAt, merged.date, merged.time, merged.allDay)
+      const derived = deriveDateTime(
+        merged.dueAt,
+        merged.date,
+        merged.time,
+        merged.allDay,
+        await this.resolveTimeZone()
+      )
 
+      // Keep the stored project unless a new one is given, so todos of a trashed project
+      // are relinked when it is restored
       await this.db.execute(
         `UPDATE ext_work_manager_todos
-         SET project_id = ?, title = ?, description = ?, icon = ?, status = ?, due_at = ?, date = ?, time = ?, all_day = ?, reminder_minutes = ?, updated_at = ?
+         SET project_id = CASE WHEN ? THEN ? ELSE project_id END, title = ?, description = ?, icon = ?, status = ?, priority = ?, due_at = ?, date = ?, time = ?, all_day = ?, reminder_minutes = ?, reminders = ?, recurrence = ?, snoozed_until = ?, overdue_follow_ups = ?, updated_at = ?
          WHERE id = ? AND user_id = ?`,
         [
+          normalizedProjectId !== undefined ? 1 : 0,
           merged.projectId,
           merged.title,
           merged.description ?? null,
           merged.icon,
           merged.status,
+          merged.priority,
           merged.dueAt,
           derived.date,
           derived.time,
           merged.allDay ? 1 : 0,
           merged.reminderMinutes ?? null,
+          merged.reminders ? JSON.stringify(merged.reminders) : null,
+          merged.recurrence ? JSON.stringify(merged.recurrence) : null,
+          merged.snoozedUntil ?? null,
+          merged.overdueFollowUps ?? 0,
           now,
           todoId,
           userId,
         ]
       )
 
-      return {
+      const updated: WorkTodo = {
         ...merged,
         date: derived.date,
         time: derived.time,
+        tags:
+          input.tags !== undefined
+            ? await this.tags.setForTodo(todoId, input.tags)
+            : existing.tags ?? [],
         updatedAt: now,
       }
+
+      await this.recordChanges(existing, updated)
+
+      // Completing an occurrence of a recurring todo spawns the next one (once)
+      if (
+        merged.status === 'completed' &&
+        !isClosedStatus(existing.status) &&
+        merged.recurrence &&
+        !existing.nextOccurrenceId
+      ) {
+        const next = await this.createNextOccurrence(updated)
+        if (next) {
+          await this.db.execute(
+            `UPDATE ext_work_manager_todos SET next_occurrence_id = ? WHERE id = ? AND user_id = ?`,
+            [next.id, todoId, userId]
+          )
+          updated.nextOccurrenceId = next.id
+        }
+      }
+
+      return updated
+    }
+
+    if (normalizedId && (await this.isTrashed(normalizedId))) {
+      throw new Error('Todo is in the trash; restore it with work_trash_restore first')
     }
 
     if (!input.title || !input.icon || !input.status) {
@@ -197,7 +552,13 @@ export class TodosRepository {
     }
 
     const dueAt = input.dueAt ?? ''
-    const derived = deriveDateTime(dueAt, input.date, input.time, input.allDay)
+    const derived = deriveDateTime(
+      dueAt,
+      input.date,
+      input.time,
+      input.allDay,
+      await this.resolveTimeZone()
+    )
 
     if (!dueAt) {
       throw new Error('Todo dueAt is required')
@@ -207,8 +568,8 @@ export class TodosRepository {
 
     await this.db.execute(
       `INSERT INTO ext_work_manager_todos (
-        id, project_id, title, description, icon, status, due_at, date, time, all_day, reminder_minutes, created_at, updated_at, user_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        id, project_id, title, description, icon, status, priority, due_at, date, time, all_day, reminder_minutes, reminders, recurrence, created_at, updated_at, user_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         todoId,
         projectId,
@@ -216,66 +577,317 @@ export class TodosRepository {
         input.description ?? null,
         input.icon,
         input.status,
+        input.priority ?? 'none',
         dueAt,
         derived.date,
         derived.time,
         input.allDay ? 1 : 0,
         input.reminderMinutes ?? null,
+        input.reminders ? JSON.stringify(input.reminders) : null,
+        input.recurrence ? JSON.stringify(input.recurrence) : null,
         now,
         now,
         userId,
       ]
     )
 
-    return {
+    const tags = input.tags ? await this.tags.setForTodo(todoId, input.tags) : []
+
+    const created: WorkTodo = {
       id: todoId,
       projectId,
       title: input.title,
       description: input.description ?? undefined,
       icon: input.icon,
       status: input.status,
+      priority: input.priority ?? 'none',
       dueAt,
       date: derived.date,
       time: derived.time,
       allDay: input.allDay ?? false,
       reminderMinutes: input.reminderMinutes ?? null,
+      reminders: input.reminders ?? null,
+      recurrence: input.recurrence ?? null,
+      nextOccurrenceId: null,
+      snoozedUntil: null,
+      overdueFollowUps: 0,
+      tags,
       createdAt: now,
       updatedAt: now,
     }
+
+    await this.activity.record({
+      entityType: 'todo',
+      entityId: todoId,
+      action: 'created',
+      changes: initialFields(created, TRACKED_FIELDS),
+    })
+
+    return created
+  }
+
+  /**
+   * Records a status transition and the other field changes of an update as separate
+   * activity entries.
+   */
+  private async recordChanges(before: WorkTodo, after: WorkTodo): Promise<void> {
+    const changes = diffFields(before, after, TRACKED_FIELDS)
+    const statusChange = changes.find((change) => change.field === 'status')
+    if (statusChange) {
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: after.id,
+        action: 'status_changed',
+        changes: [statusChange],
+      })
+    }
+
+    const fieldChanges = changes.filter((change) => change !== statusChange)
+    if (fieldChanges.length > 0) {
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: after.id,
+        action: 'updated',
+        changes: fieldChanges,
+      })
+    }
+  }
+
+  /**
+   * Advances a todo to the next status (not started → in progress → completed → not started).
+   * @returns The updated todo, or null if it does not exist
+   */
+  async cycleStatus(id: string): Promise<WorkTodo | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.get(id)
+      if (!existing) return null
+      return this.save(id, { status: NEXT_STATUS[existing.status] })
+    })
+  }
+
+  /**
+   * Stores when a fired reminder should fire again, or clears it with null.
+   * @returns The updated todo, or null if it does not exist
+   */
+  async snooze(id: string, snoozedUntil: string | null): Promise<WorkTodo | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.get(id)
+      if (!existing) return null
+
+      const now = new Date().toISOString()
+      const userId = this.db.getUserId()
+      await this.db.execute(
+        `UPDATE ext_work_manager_todos SET snoozed_until = ?, updated_at = ? WHERE id = ? AND user_id = ?`,
+        [snoozedUntil, now, id, userId]
+      )
+
+      const updated = { ...existing, snoozedUntil, updatedAt: now }
+      await this.recordChanges(existing, updated)
+      return updated
+    })
+  }
+
+  /**
+   * Records that an overdue follow-up was sent for a todo.
+   * @returns The updated todo, or null if it does not exist
+   */
+  async recordOverdueFollowUp(id: string): Promise<WorkTodo | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.get(id)
+      if (!existing) return null
+
+      const userId = this.db.getUserId()
+      const overdueFollowUps = (existing.overdueFollowUps ?? 0) + 1
+      await this.db.execute(
+        `UPDATE ext_work_manager_todos SET overdue_follow_ups = ? WHERE id = ? AND user_id = ?`,
+        [overdueFollowUps, id, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: id,
+        action: 'updated',
+        changes: [
+          { field: 'overdueFollowUps', from: existing.overdueFollowUps ?? 0, to: overdueFollowUps },
+        ],
+      })
+
+      return { ...existing, overdueFollowUps }
+    })
+  }
+
+  /**
+   * Turns a subitem into a standalone todo in the parent's project and removes the subitem.
+   * The new todo inherits the parent's icon, due date, reminder and tags.
+   * @returns The new todo, or null if the subitem does not exist
+   */
+  async promoteSubItem(todoId: string, subItemId: string): Promise<WorkTodo | null> {
+    return this.db.transaction(async () => {
+      const parent = await this.get(todoId)
+      if (!parent) return null
+
+      const subItem = await this.subItems.get(todoId, subItemId)
+      if (!subItem) return null
+
+      const created = await this.save(undefined, {
+        projectId: parent.projectId ?? null,
+        title: subItem.text,
+        icon: parent.icon,
+        status: subItem.completedAt ? 'completed' : 'not_started',
+        priority: parent.priority,
+        dueAt: parent.dueAt,
+        allDay: parent.allDay,
+        reminderMinutes: parent.reminderMinutes ?? null,
+        reminders: parent.reminders ?? null,
+        tags: parent.tags ?? [],
+      })
+
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_subitems WHERE id = ? AND todo_id = ? AND user_id = ?`,
+        [subItemId, todoId, this.db.getUserId()]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: todoId,
+        action: 'subitem_deleted',
+        subjectId: subItemId,
+        changes: [{ field: 'promotedTo', from: null, to: created.id }],
+      })
+
+      return created
+    })
+  }
+
+  /**
+   * Creates the occurrence following a recurring todo, copying its subitems unchecked.
+   * @returns The new todo, or null when the recurrence has ended
+   */
+  private async createNextOccurrence(todo: WorkTodo): Promise<WorkTodo | null> {
+    if (!todo.recurrence) return null
+
+    // An overdue series continues from today rather than with occurrences already past;
+    // all-day occurrences count as current for their whole day
+    const now = new Date()
+    const timeZone = await this.resolveTimeZone()
+    const today = timeZone ? formatZonedDate(now, timeZone) : now.toISOString().slice(0, 10)
+    const notBefore = todo.allDay
+      ? new Date(`${today}T00:00:00${resolveUtcOffset(today, '00:00', timeZone)}`)
+      : now
+    const next = computeNextOccurrence(todo.dueAt, todo.recurrence, notBefore)
+    if (!next) return null
+
+    const created = await this.save(undefined, {
+      projectId: todo.projectId ?? null,
+      title: todo.title,
+      description: todo.description,
+      icon: todo.icon,
+      status: 'not_started',
+      priority: todo.priority,
+      dueAt: next.dueAt,
+      allDay: todo.allDay,
+      reminderMinutes: todo.reminderMinutes ?? null,
+      reminders: todo.reminders ?? null,
+      recurrence: next.recurrence,
+      tags: todo.tags ?? [],
+    })
+
+    await this.subItems.copy(todo.id, created.id)
+
+    return created
   }
 
+  /**
+   * Moves a todo to the trash. Its comments, subitems, tags and dependencies are kept so
+   * restoring it brings everything back; purging the trash removes them.
+   */
   async delete(id: string): Promise<boolean> {
-    await this.db.initialize()
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ title: string }>(
+        `SELECT title FROM ext_work_manager_todos WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
+        [id, userId]
+      )
+
+      const row = rows[0]
+      if (!row) return false
+
+      await this.db.execute(
+        `UPDATE ext_work_manager_todos SET deleted_at = ? WHERE id = ? AND user_id = ?`,
+        [new Date().toISOString(), id, userId]
+      )
+      await this.activity.record({
+        entityType: 'todo',
+        entityId: id,
+        action: 'deleted',
+        changes: [{ field: 'title', from: row.title, to: null }],
+      })
+
+      return true
+    })
+  }
 
+  /**
+   * Creates or updates several todos in one transaction, so a failing entry leaves
+   * nothing half-imported.
+   */
+  async importMany(entries: WorkTodoImport[], options: UpsertTodoOptions = {}): Promise<WorkTodo[]> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const todos: WorkTodo[] = []
+      const createdProjects = new Map<string, string>()
+      for (const entry of entries) {
+        let input = entry.input
+        if (entry.newProject) {
+          let projectId = createdProjects.get(entry.newProject)
+          if (!projectId) {
+            projectId = (await this.projects.save(undefined, { name: entry.newProject })).id
+            createdProjects.set(entry.newProject, projectId)
+          }
+          input = { ...input, projectId }
+        }
+        const todo = await this.save(entry.id, input, options)
+        if (entry.icalUid) {
+          await this.db.execute(
+            `UPDATE ext_work_manager_todos SET ical_uid = ? WHERE id = ? AND user_id = ?`,
+            [entry.icalUid, todo.id, userId]
+          )
+        }
+        if (entry.subItems?.length) await this.subItems.append(todo.id, entry.subItems)
+        if (entry.comments?.length) await this.comments.append(todo.id, entry.comments)
+        todos.push(todo)
+      }
+      return todos
+    })
+  }
+
+  /**
+   * Returns the ID of the todo imported from the calendar entry with this UID, if any.
+   */
+  async findIdByIcalUid(uid: string): Promise<string | null> {
+    await this.db.initialize()
     const userId = this.db.getUserId()
     const rows = await this.db.execute<{ id: string }>(
-      `SELECT id FROM ext_work_manager_todos WHERE id = ? AND user_id = ?`,
-      [id, userId]
+      `SELECT id FROM ext_work_manager_todos
+       WHERE ical_uid = ? AND user_id = ? AND deleted_at IS NULL
+       ORDER BY created_at ASC LIMIT 1`,
+      [uid, userId]
     )
+    return rows[0]?.id ?? null
+  }
 
-    if (rows.length === 0) return false
-
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_comments WHERE todo_id = ? AND user_id = ?`,
-      [id, userId]
-    )
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_subitems WHERE todo_id = ? AND user_id = ?`,
-      [id, userId]
-    )
-    await this.db.execute(
-      `DELETE FROM ext_work_manager_todos WHERE id = ? AND user_id = ?`,
+  async has(id: string): Promise<boolean> {
+    await this.db.initialize()
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<{ id: string }>(
+      `SELECT id FROM ext_work_manager_todos WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
       [id, userId]
     )
-
-    return true
+    return rows.length > 0
   }
 
-  async has(id: string): Promise<boolean> {
-    await this.db.initialize()
+  private async isTrashed(id: string): Promise<boolean> {
     const userId = this.db.getUserId()
     const rows = await this.db.execute<{ id: string }>(
-      `SELECT id FROM ext_work_manager_todos WHERE id = ? AND user_id = ?`,
+      `SELECT id FROM ext_work_manager_todos WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`,
       [id, userId]
     )
     return rows.length > 0
@@ -0,0 +1,215 @@
+import type { WorkTrashItem, WorkTrashKind } from '../types.js'
+import type { ActivityRepository } from './activityRepository.js'
+import type { DependenciesRepository } from './dependenciesRepository.js'
+import type { TagsRepository } from './tagsRepository.js'
+import type { WorkDb } from './workDb.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TRASH_TABLES: Record<WorkTrashKind, string> = {
+  todo: 'ext_work_manager_todos',
+  project: 'ext_work_manager_projects',
+}
+
+interface TrashRow {
+  kind: WorkTrashKind
+  id: string
+  title: string
+  project_id: string | null
+  deleted_at: string
+}
+
+/**
+ * Returns when an item trashed at `deletedAt` is purged, or null if retention is off.
+ */
+export const resolvePurgeAt = (deletedAt: string, retentionDays: number | null): string | null => {
+  if (retentionDays === null) return null
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString()
+}
+
+export class TrashRepository {
+  private readonly db: WorkDb
+  private readonly tags: TagsRepository
+  private readonly dependencies: DependenciesRepository
+  private readonly activity: ActivityRepository
+
+  constructor(
+    db: WorkDb,
+    tags: TagsRepository,
+    dependencies: DependenciesRepository,
+    activity: ActivityRepository
+  ) {
+    this.db = db
+    this.tags = tags
+    this.dependencies = dependencies
+    this.activity = activity
+  }
+
+  /**
+   * Lists trashed todos and projects, most recently deleted first.
+   * @param retentionDays The retention setting, used to report when each item is purged
+   */
+  async list(retentionDays: number | null): Promise<WorkTrashItem[]> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const rows = await this.db.execute<TrashRow>(
+      `SELECT 'todo' AS kind, id, title, project_id, deleted_at
+       FROM ext_work_manager_todos
+       WHERE user_id = ? AND deleted_at IS NOT NULL
+       UNION ALL
+       SELECT 'project', id, name, NULL, deleted_at
+       FROM ext_work_manager_projects
+       WHERE user_id = ? AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC`,
+      [userId, userId]
+    )
+
+    return rows.map((row) => ({
+      kind: row.kind,
+      id: row.id,
+      title: row.title,
+      ...(row.kind === 'todo' ? { projectId: row.project_id } : {}),
+      deletedAt: row.deleted_at,
+      purgeAt: resolvePurgeAt(row.deleted_at, retentionDays),
+    }))
+  }
+
+  /**
+   * Returns when the oldest item was trashed, or null if the trash is empty.
+   */
+  async getOldestDeletedAt(): Promise<string | null> {
+    await this.db.initialize()
+
+    const userId = this.db.getUserId()
+    const [row] = await this.db.execute<{ deleted_at: string | null }>(
+      `SELECT MIN(deleted_at) AS deleted_at FROM (
+         SELECT deleted_at FROM ext_work_manager_todos WHERE user_id = ? AND deleted_at IS NOT NULL
+         UNION ALL
+         SELECT deleted_at FROM ext_work_manager_projects WHERE user_id = ? AND deleted_at IS NOT NULL
+       )`,
+      [userId, userId]
+    )
+
+    return row?.deleted_at ?? null
+  }
+
+  /**
+   * Takes a todo or project out of the trash. A todo comes back with its comments, subitems,
+   * tags and dependencies; a project's todos are linked to it again.
+   * @returns false if the item is not in the trash
+   */
+  async restore(kind: WorkTrashKind, id: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const table = TRASH_TABLES[kind]
+      const rows = await this.db.execute<{ id: string }>(
+        `SELECT id FROM ${table} WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`,
+        [id, userId]
+      )
+      if (rows.length === 0) return false
+
+      await this.db.execute(
+        `UPDATE ${table} SET deleted_at = NULL, updated_at = ? WHERE id = ? AND user_id = ?`,
+        [new Date().toISOString(), id, userId]
+      )
+      await this.activity.record({ entityType: kind, entityId: id, action: 'restored' })
+
+      return true
+    })
+  }
+
+  /**
+   * Permanently removes a trashed todo or project.
+   * @returns false if the item is not in the trash
+   */
+  async purge(kind: WorkTrashKind, id: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const rows = await this.db.execute<{ id: string }>(
+        `SELECT id FROM ${TRASH_TABLES[kind]} WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`,
+        [id, userId]
+      )
+      if (rows.length === 0) return false
+
+      await this.purgeItem(kind, id)
+      return true
+    })
+  }
+
+  /**
+   * Permanently removes items trashed at or before `cutoff`, or everything in the trash
+   * without a cutoff.
+   * @returns The number of items removed
+   */
+  async purgeDeletedBefore(cutoff?: string): Promise<number> {
+    return this.db.transaction(async () => {
+      const userId = this.db.getUserId()
+      const params: unknown[] = cutoff ? [userId, cutoff, userId, cutoff] : [userId, userId]
+      const filter = cutoff ? ' AND julianday(deleted_at) <= julianday(?)' : ''
+      const rows = await this.db.execute<{ kind: WorkTrashKind; id: string }>(
+        `SELECT 'todo' AS kind, id FROM ext_work_manager_todos
+         WHERE user_id = ? AND deleted_at IS NOT NULL${filter}
+         UNION ALL
+         SELECT 'project', id FROM ext_work_manager_projects
+         WHERE user_id = ? AND deleted_at IS NOT NULL${filter}`,
+        params
+      )
+
+      for (const row of rows) {
+        await this.purgeItem(row.kind, row.id)
+      }
+
+      return rows.length
+    })
+  }
+
+  /**
+   * Permanently removes items that have been in the trash for `retentionDays` or longer.
+   * @returns The number of items removed
+   */
+  async purgeExpired(retentionDays: number, now = new Date()): Promise<number> {
+    return this.purgeDeletedBefore(new Date(now.getTime() - retentionDays * DAY_MS).toISOString())
+  }
+
+  private async purgeItem(kind: WorkTrashKind, id: string): Promise<void> {
+    const userId = this.db.getUserId()
+
+    if (kind === 'todo') {
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_comments WHERE todo_id = ? AND user_id = ?`,
+        [id, userId]
+      )
+      await this.db.execute(
+        `DELETE FROM ext_work_manager_subitems WHERE todo_id = ? AND user_id = ?`,
+        [id, userId]
+      )
+      await this.tags.clearTodo(id)
+      await this.dependencies.clearTodo(id)
+    } else {
+      // Todos of the project stay, without a project
+      const todos = await this.db.execute<{ id: string }>(
+        `SELECT id FROM ext_work_manager_todos WHERE project_id = ? AND user_id = ?`,
+        [id, userId]
+      )
+      for (const todo of todos) {
+        await this.activity.record({
+          entityType: 'todo',
+          entityId: todo.id,
+          action: 'updated',
+          changes: [{ field: 'projectId', from: id, to: null }],
+        })
+      }
+      await this.db.execute(
+        `UPDATE ext_work_manager_todos SET project_id = NULL WHERE project_id = ? AND user_id = ?`,
+        [id, userId]
+      )
+    }
+
+    await this.db.execute(`DELETE FROM ${TRASH_TABLES[kind]} WHERE id = ? AND user_id = ?`, [
+      id,
+      userId,
+    ])
+    await this.activity.record({ entityType: kind, entityId: id, action: 'purged' })
+  }
+}
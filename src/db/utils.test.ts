@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_PAGE_SIZE } from './constants.js'
+import { resolvePage } from './utils.js'
+
+describe('resolvePage', () => {
+  it('falls back to the default limit and offset 0', () => {
+    expect(resolvePage(undefined, undefined, 50)).toEqual({ limit: 50, offset: 0 })
+  })
+
+  it('caps the limit', () => {
+    expect(resolvePage(MAX_PAGE_SIZE + 1, 10, 50)).toEqual({ limit: MAX_PAGE_SIZE, offset: 10 })
+  })
+
+  it.each([
+    ['10', undefined],
+    [-1, undefined],
+    [2.5, undefined],
+    [undefined, -5],
+    [undefined, '3'],
+  ])('rejects limit %j and offset %j', (limit, offset) => {
+    expect(() => resolvePage(limit as number, offset as number, 50)).toThrow(
+      /must be a non-negative integer/
+    )
+  })
+})
@@ -1,7 +1,27 @@
+import { formatZonedDate, formatZonedTime } from '../timezone.js'
+import { MAX_PAGE_SIZE } from './constants.js'
+
 export const generateId = (prefix: string): string => {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
 }
 
+/**
+ * Resolves the limit and offset of a list call, capping the limit at MAX_PAGE_SIZE.
+ * @throws Error unless both are non-negative integers
+ */
+export const resolvePage = (
+  limit: number | undefined,
+  offset: number | undefined,
+  defaultLimit: number
+): { limit: number; offset: number } => {
+  for (const [key, value] of Object.entries({ limit, offset })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`${key} must be a non-negative integer`)
+    }
+  }
+  return { limit: Math.min(limit ?? defaultLimit, MAX_PAGE_SIZE), offset: offset ?? 0 }
+}
+
 export const normalizeQuery = (query: string): string => query.trim().toLowerCase()
 
 export const normalizeOptionalString = (value?: string | null): string | null | undefined => {
@@ -11,11 +31,17 @@ export const normalizeOptionalString = (value?: string | null): string | null |
   return trimmed ? trimmed : null
 }
 
+/**
+ * Derives the local date and time fields of a todo from its due date unless given explicitly.
+ * With a time zone, timed todos use the wall-clock time in that zone; all-day todos keep the
+ * date as written in dueAt.
+ */
 export const deriveDateTime = (
   dueAt?: string,
   date?: string,
   time?: string,
-  allDay?: boolean
+  allDay?: boolean,
+  timeZone?: string | null
 ) => {
   const normalizedDate = normalizeOptionalString(date) ?? undefined
   const normalizedTime = normalizeOptionalString(time) ?? undefined
@@ -24,6 +50,16 @@ export const deriveDateTime = (
     return { date: normalizedDate, time: normalizedTime }
   }
 
+  if (timeZone && !allDay && dueAt && dueAt.length >= 16) {
+    const instant = new Date(dueAt)
+    if (!Number.isNaN(instant.getTime())) {
+      return {
+        date: normalizedDate ?? formatZonedDate(instant, timeZone),
+        time: normalizedTime ?? formatZonedTime(instant, timeZone),
+      }
+    }
+  }
+
   if (dueAt && dueAt.length >= 16) {
     const derivedDate = dueAt.slice(0, 10)
     const derivedTime = dueAt.slice(11, 16)
@@ -38,3 +74,37 @@ export const deriveDateTime = (
     time: normalizedTime ?? (allDay ? '00:00' : ''),
   }
 }
+
+/**
+ * Encodes the sort keys of the last row of a page as an opaque cursor. The scope (sort
+ * field and direction) is stored with the keys so a cursor cannot be reused with other options.
+ */
+export const encodeCursor = (scope: string, keys: unknown[]): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ scope, keys }))
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes a cursor created by encodeCursor.
+ * @throws Error if the cursor is malformed or was created with a different scope
+ */
+export const decodeCursor = (cursor: string, scope: string, keyCount: number): unknown[] => {
+  let decoded: unknown
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    decoded = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new Error('Invalid cursor')
+  }
+
+  const { scope: cursorScope, keys } = (decoded ?? {}) as { scope?: unknown; keys?: unknown }
+  if (!Array.isArray(keys) || keys.length !== keyCount) {
+    throw new Error('Invalid cursor')
+  }
+  if (cursorScope !== scope) {
+    throw new Error('Cursor was created with different sort options')
+  }
+  return keys
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { WorkDb, type DatabaseAPI } from './workDb.js'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+/** A database that answers every statement with no rows and records what it ran. */
+const createDatabase = () => {
+  const statements: string[] = []
+  const database: DatabaseAPI = {
+    async execute<T>(sql: string): Promise<T[]> {
+      statements.push(sql.trim())
+      await tick()
+      return []
+    },
+  }
+  return { database, statements }
+}
+
+describe('WorkDb', () => {
+  it('keeps statements of other instances out of an open transaction', async () => {
+    const { database, statements } = createDatabase()
+    const db = new WorkDb(database)
+    await db.initialize()
+    statements.length = 0
+
+    const first = db.withUser('user-1')
+    const second = db.withUser('user-2')
+    let release = () => {}
+    const held = new Promise<void>((resolve) => (release = resolve))
+    const transaction = first.transaction(async () => {
+      await first.execute('SELECT 1')
+      await held
+      await first.execute('SELECT 2')
+    })
+    await vi.waitFor(() => expect(statements).toContain('SELECT 1'))
+    const read = second.execute('SELECT 3')
+    await tick()
+    release()
+    await Promise.all([transaction, read])
+
+    expect(statements).toEqual(['BEGIN', 'SELECT 1', 'SELECT 2', 'COMMIT', 'SELECT 3'])
+  })
+
+  it('runs transactions one at a time and rolls back a failing one', async () => {
+    const { database, statements } = createDatabase()
+    const db = new WorkDb(database)
+    await db.initialize()
+    statements.length = 0
+
+    const failing = db.withUser('user-1').transaction(async () => {
+      throw new Error('boom')
+    })
+    const next = db.withUser('user-2').transaction(async () => 'done')
+
+    await expect(failing).rejects.toThrow('boom')
+    await expect(next).resolves.toBe('done')
+    expect(statements).toEqual(['BEGIN', 'ROLLBACK', 'BEGIN', 'COMMIT'])
+  })
+})
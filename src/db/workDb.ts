@@ -1,4 +1,5 @@
-import { NO_PROJECT_GROUP } from './constants.js'
+import type { WorkActivitySource } from '../types.js'
+import { getSchemaVersion, runMigrations } from './migrations.js'
 
 export interface DatabaseAPI {
   execute<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>
@@ -7,16 +8,24 @@ export interface DatabaseAPI {
 export class WorkDb {
   private readonly db: DatabaseAPI
   private readonly _userId: string | undefined
-  private static initializedDatabases = new WeakSet<DatabaseAPI>()
+  private readonly _source: WorkActivitySource
+  private static initializations = new WeakMap<DatabaseAPI, Promise<void>>()
+  private static searchDatabases = new WeakSet<DatabaseAPI>()
+  /** Statements and transactions waiting for the connection, per database. */
+  private static queues = new WeakMap<DatabaseAPI, Promise<unknown>>()
+  /** The instance whose transaction is open, per database. */
+  private static transactionOwners = new WeakMap<DatabaseAPI, WorkDb>()
 
   /**
    * Creates a WorkDb instance.
    * @param db The database API
    * @param userId Optional user ID for scoped operations
+   * @param source What triggers the writes made through this instance, for the activity log
    */
-  constructor(db: DatabaseAPI, userId?: string) {
+  constructor(db: DatabaseAPI, userId?: string, source: WorkActivitySource = 'tool') {
     this.db = db
     this._userId = userId
+    this._source = source
   }
 
   /**
@@ -26,7 +35,23 @@ export class WorkDb {
    * @returns A new WorkDb instance with the specified user ID
    */
   withUser(userId: string): WorkDb {
-    return new WorkDb(this.db, userId)
+    return new WorkDb(this.db, userId, this._source)
+  }
+
+  /**
+   * Creates a new WorkDb instance whose writes are attributed to the given source.
+   * @param source The source recorded in the activity log
+   * @returns A new WorkDb instance with the same user scope
+   */
+  withSource(source: WorkActivitySource): WorkDb {
+    return new WorkDb(this.db, this._userId, source)
+  }
+
+  /**
+   * Returns the source that writes made through this instance are attributed to.
+   */
+  getSource(): WorkActivitySource {
+    return this._source
   }
 
   /**
@@ -41,214 +66,94 @@ export class WorkDb {
   }
 
   /**
-   * Safely adds a column to a table, ignoring errors if the column already exists.
+   * Whether the full-text search index is available. SQLite builds without FTS5 fall back
+   * to LIKE-based search.
    */
-  private async safeAddColumn(table: string, column: string, type: string): Promise<void> {
-    try {
-      await this.db.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error)
-      if (!msg.includes('duplicate column') && !msg.includes('already exists')) {
-        throw error
-      }
-    }
+  hasSearchIndex(): boolean {
+    return WorkDb.searchDatabases.has(this.db)
   }
 
+  /**
+   * Brings the schema up to date by running pending migrations. Runs once per database;
+   * concurrent callers share the same run. A failed run is retried on the next call.
+   * @throws Error if a migration fails
+   */
   async initialize(): Promise<void> {
-    // Use static WeakSet to track initialized databases across all WorkDb instances
-    if (WorkDb.initializedDatabases.has(this.db)) return
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_projects (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )`
-    )
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_group_state (
-        group_id TEXT PRIMARY KEY,
-        collapsed INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      )`
-    )
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_todos (
-        id TEXT PRIMARY KEY,
-        project_id TEXT,
-        title TEXT NOT NULL,
-        description TEXT,
-        icon TEXT NOT NULL,
-        status TEXT NOT NULL,
-        due_at TEXT NOT NULL,
-        date TEXT NOT NULL,
-        time TEXT NOT NULL,
-        all_day INTEGER NOT NULL DEFAULT 0,
-        reminder_minutes INTEGER,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )`
-    )
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_subitems (
-        id TEXT PRIMARY KEY,
-        todo_id TEXT NOT NULL,
-        text TEXT NOT NULL,
-        completed_at TEXT,
-        sort_order INTEGER NOT NULL DEFAULT 0,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )`
-    )
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_comments (
-        id TEXT PRIMARY KEY,
-        todo_id TEXT NOT NULL,
-        text TEXT NOT NULL,
-        created_at TEXT NOT NULL
-      )`
-    )
-
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )`
-    )
-
-    // Multi-user migration: Add user_id columns to all tables
-    const tables = [
-      'ext_work_manager_projects',
-      'ext_work_manager_todos',
-      'ext_work_manager_subitems',
-      'ext_work_manager_comments',
-      'ext_work_manager_group_state',
-    ]
-
-    for (const table of tables) {
-      await this.safeAddColumn(table, 'user_id', 'TEXT')
+    let initialization = WorkDb.initializations.get(this.db)
+    if (!initialization) {
+      initialization = this.migrate()
+      WorkDb.initializations.set(this.db, initialization)
+      initialization.catch(() => WorkDb.initializations.delete(this.db))
     }
+    return initialization
+  }
 
-    // Migrate existing records to 'legacy' user
-    for (const table of tables) {
-      await this.db.execute(
-        `UPDATE ${table} SET user_id = 'legacy' WHERE user_id IS NULL`
-      )
-    }
-
-    // Create user_settings table for per-user settings
-    await this.db.execute(
-      `CREATE TABLE IF NOT EXISTS ext_work_manager_user_settings (
-        key TEXT NOT NULL,
-        value TEXT NOT NULL,
-        user_id TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        PRIMARY KEY (key, user_id)
-      )`
-    )
-
-    // Migrate existing settings to 'legacy' user
-    await this.db.execute(
-      `INSERT OR IGNORE INTO ext_work_manager_user_settings (key, value, user_id, updated_at)
-       SELECT key, value, 'legacy', updated_at FROM ext_work_manager_settings`
-    )
-
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_due_idx
-       ON ext_work_manager_todos(due_at)`
-    )
-
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_project_idx
-       ON ext_work_manager_todos(project_id)`
-    )
+  /**
+   * Returns the version of the last migration applied to the database.
+   */
+  async getSchemaVersion(): Promise<number> {
+    await this.initialize()
+    return this.enqueue(() => getSchemaVersion(this.db))
+  }
 
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_subitems_todo_idx
-       ON ext_work_manager_subitems(todo_id)`
-    )
+  /**
+   * Runs a statement. Statements wait for any open transaction on the database to finish,
+   * except those of the instance that opened it, which belong to the transaction.
+   */
+  async execute<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
+    if (WorkDb.transactionOwners.get(this.db) === this) {
+      return this.db.execute<T>(sql, params)
+    }
+    return this.enqueue(() => this.db.execute<T>(sql, params))
+  }
 
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_comments_todo_idx
-       ON ext_work_manager_comments(todo_id)`
-    )
+  /**
+   * Runs `fn` inside a transaction: commits when it resolves and rolls back when it throws.
+   * While it runs, the database only takes statements made through this instance; others
+   * wait their turn. `fn` must not start another transaction itself, nor use another
+   * instance for the same database; it would wait for its own completion forever.
+   * @returns The value returned by `fn`
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    await this.initialize()
+
+    return this.enqueue(async () => {
+      WorkDb.transactionOwners.set(this.db, this)
+      try {
+        await this.db.execute('BEGIN')
+        try {
+          const result = await fn()
+          await this.db.execute('COMMIT')
+          return result
+        } catch (error) {
+          await this.db.execute('ROLLBACK').catch(() => undefined)
+          throw error
+        }
+      } finally {
+        WorkDb.transactionOwners.delete(this.db)
+      }
+    })
+  }
 
-    // User-scoped indexes for efficient filtering
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_projects_user_idx
-       ON ext_work_manager_projects(user_id)`
-    )
+  /**
+   * Runs `fn` once everything queued on the database before it has finished.
+   */
+  private async enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = WorkDb.queues.get(this.db) ?? Promise.resolve()
+    const run = previous.then(fn)
+    WorkDb.queues.set(this.db, run.catch(() => undefined))
+    return run
+  }
 
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_todos_user_idx
-       ON ext_work_manager_todos(user_id)`
-    )
+  private async migrate(): Promise<void> {
+    // Migrations open their own transactions, so nothing else may run in between
+    await this.enqueue(() => runMigrations(this.db))
 
-    await this.db.execute(
-      `CREATE INDEX IF NOT EXISTS ext_work_manager_group_state_user_idx
-       ON ext_work_manager_group_state(user_id)`
+    const search = await this.execute<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'ext_work_manager_search'`
     )
-
-    await cleanupProjectReferences(this.db)
-
-    WorkDb.initializedDatabases.add(this.db)
-  }
-
-  async execute<T = unknown>(sql: string, params?: unknown[]): Promise<T[]> {
-    return this.db.execute<T>(sql, params)
+    if (search.length > 0) {
+      WorkDb.searchDatabases.add(this.db)
+    }
   }
 }
-
-async function cleanupProjectReferences(db: DatabaseAPI): Promise<void> {
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET project_id = NULL
-     WHERE project_id IS NOT NULL AND TRIM(project_id) = ''`
-  )
-
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET status = 'not_started'
-     WHERE status IN ('pending', 'todo', 'open')`
-  )
-
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET status = 'in_progress'
-     WHERE status IN ('inprogress', 'in-progress')`
-  )
-
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET status = 'completed'
-     WHERE status IN ('complete', 'done')`
-  )
-
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET status = 'cancelled'
-     WHERE status = 'canceled'`
-  )
-
-  await db.execute(
-    `UPDATE ext_work_manager_todos
-     SET project_id = NULL
-     WHERE project_id IS NOT NULL
-       AND project_id NOT IN (SELECT id FROM ext_work_manager_projects)`
-  )
-
-  await db.execute(
-    `DELETE FROM ext_work_manager_group_state
-     WHERE group_id IS NOT NULL
-       AND group_id != ?
-       AND group_id NOT IN (SELECT id FROM ext_work_manager_projects)`,
-    [NO_PROJECT_GROUP]
-  )
-}
@@ -0,0 +1,163 @@
+import { isTodoActive, resolveLocale, type InstructionContext } from './reminders.js'
+import { addDaysToDate, formatZonedDate, zonedTimeToUtc } from './timezone.js'
+import type { WorkSettings, WorkTodo } from './types.js'
+
+const DEFAULT_DIGEST_TIME = '08:00'
+
+export interface DigestTodo {
+  id: string
+  title: string
+  status: WorkTodo['status']
+  dueAt: string
+  allDay: boolean
+}
+
+export interface DigestSection {
+  projectId: string | null
+  projectName: string | null
+  dueToday: DigestTodo[]
+  overdue: DigestTodo[]
+  inProgress: DigestTodo[]
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0')
+
+/**
+ * Formats the local date of an instant, in the user's time zone when known,
+ * otherwise in the runtime's local time.
+ */
+const formatLocalDate = (date: Date, timeZone?: string | null): string => {
+  if (timeZone) return formatZonedDate(date, timeZone)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const toDigestTodo = (todo: WorkTodo): DigestTodo => ({
+  id: todo.id,
+  title: todo.title,
+  status: todo.status,
+  dueAt: todo.dueAt,
+  allDay: todo.allDay,
+})
+
+/**
+ * Parses the configured digest time (HH:MM), falling back to 08:00.
+ */
+const parseDigestTime = (value: string | null): { hours: number; minutes: number } => {
+  const match = (value ?? '').trim().match(/^(\d{1,2}):(\d{2})$/)
+  const [hours, minutes] = match
+    ? [Number(match[1]), Number(match[2])]
+    : DEFAULT_DIGEST_TIME.split(':').map(Number)
+  if (hours > 23 || minutes > 59) return parseDigestTime(DEFAULT_DIGEST_TIME)
+  return { hours, minutes }
+}
+
+/**
+ * Resolves the next time the daily digest should be delivered, in the user's time zone
+ * when known, otherwise in the runtime's local time.
+ * @returns ISO 8601 timestamp, or null when the digest is disabled
+ */
+export const resolveNextDigestAt = (
+  settings: WorkSettings,
+  now: Date = new Date(),
+  timeZone?: string | null
+): string | null => {
+  if (!settings.digestEnabled) return null
+
+  const { hours, minutes } = parseDigestTime(settings.digestTime)
+
+  if (timeZone) {
+    const time = `${pad(hours)}:${pad(minutes)}`
+    const today = formatZonedDate(now, timeZone)
+    const todayAt = zonedTimeToUtc(today, time, timeZone)
+    if (todayAt && todayAt.getTime() > now.getTime()) return todayAt.toISOString()
+    return zonedTimeToUtc(addDaysToDate(today, 1), time, timeZone)?.toISOString() ?? null
+  }
+
+  const next = new Date(now)
+  next.setHours(hours, minutes, 0, 0)
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1)
+  }
+  return next.toISOString()
+}
+
+/**
+ * Groups active todos per project into today's, overdue and in-progress items.
+ * Projects without anything to report are left out.
+ * @param todos All todos for the user
+ * @param projectNames Project names by ID
+ * @param now The current time
+ * @param timeZone The user's time zone, if known
+ */
+export const buildDigestSections = (
+  todos: WorkTodo[],
+  projectNames: Map<string, string>,
+  now: Date = new Date(),
+  timeZone?: string | null
+): DigestSection[] => {
+  const today = formatLocalDate(now, timeZone)
+  const sections = new Map<string, DigestSection>()
+
+  const sectionFor = (todo: WorkTodo): DigestSection => {
+    const projectId = todo.projectId ?? null
+    const key = projectId ?? ''
+    let section = sections.get(key)
+    if (!section) {
+      section = {
+        projectId,
+        projectName: projectId ? projectNames.get(projectId) ?? null : null,
+        dueToday: [],
+        overdue: [],
+        inProgress: [],
+      }
+      sections.set(key, section)
+    }
+    return section
+  }
+
+  for (const todo of todos) {
+    if (!isTodoActive(todo)) continue
+
+    if (todo.date === today) {
+      sectionFor(todo).dueToday.push(toDigestTodo(todo))
+    } else if (todo.date && todo.date < today) {
+      sectionFor(todo).overdue.push(toDigestTodo(todo))
+    } else if (todo.status === 'in_progress') {
+      sectionFor(todo).inProgress.push(toDigestTodo(todo))
+    }
+  }
+
+  return [...sections.values()].sort((a, b) => {
+    if (!a.projectName) return 1
+    if (!b.projectName) return -1
+    return a.projectName.localeCompare(b.projectName)
+  })
+}
+
+export const buildDigestMessage = (
+  sections: DigestSection[],
+  settings: WorkSettings,
+  context?: InstructionContext
+): string => {
+  const locale = resolveLocale(settings, context?.userLanguage)
+  const digestJson = JSON.stringify(sections)
+  const name = context?.userName?.trim()
+
+  if (locale === 'sv') {
+    return [
+      '[Automatiskt meddelande: daglig arbetsöversikt]',
+      `Ge${name ? ` ${name}` : ' användaren'} en kort översikt över dagens arbete per projekt: ` +
+        'att-göra-poster som infaller idag, försenade poster och pågående arbete. ' +
+        'Lyft fram det försenade först och håll det kortfattat.',
+      `Översiktsdata: ${digestJson}`,
+    ].join('\n')
+  }
+
+  return [
+    '[Automatic daily work agenda]',
+    `Give${name ? ` ${name}` : ' the user'} a short overview of today's work per project: ` +
+      'todos due today, overdue items and work in progress. ' +
+      'Mention overdue items first and keep it brief.',
+    `Agenda data: ${digestJson}`,
+  ].join('\n')
+}
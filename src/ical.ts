@@ -0,0 +1,500 @@
+import { parseRRule } from './recurrence.js'
+import { isTodoActive, MAX_REMINDERS_PER_TODO, resolveReminderTimes } from './reminders.js'
+import { isValidTimeZone, resolveUtcOffset } from './timezone.js'
+import type {
+  WorkSettings,
+  WorkTodo,
+  WorkTodoPriority,
+  WorkTodoRecurrence,
+  WorkTodoStatus,
+} from './types.js'
+
+const PRODUCT_ID = '-//Stina//Work Manager//EN'
+
+/** Domain part of exported UIDs; keeps them unique across calendars. */
+const UID_DOMAIN = 'work-manager.stina'
+
+/** Lines longer than this many octets are folded (RFC 5545 §3.1). */
+const MAX_LINE_OCTETS = 75
+
+const TODO_STATUS: Record<WorkTodoStatus, string> = {
+  not_started: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+}
+
+/** iCalendar priorities run from 1 (highest) to 9 (lowest); 0 means undefined. */
+const ICAL_PRIORITY: Record<WorkTodoPriority, number> = {
+  none: 0,
+  low: 7,
+  medium: 5,
+  high: 3,
+  urgent: 1,
+}
+
+const IMPORTED_STATUS: Record<string, WorkTodoStatus> = {
+  'NEEDS-ACTION': 'not_started',
+  'IN-PROCESS': 'in_progress',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+}
+
+export interface ICalendarExportOptions {
+  settings: WorkSettings
+  /** The user's time zone, used for all-day reminder times. */
+  timeZone?: string | null
+  /** Project names by ID, exported as categories. */
+  projectNames?: Map<string, string>
+  /** Export timed todos as VEVENT instead of VTODO. All-day todos are always VTODO. */
+  timedAsEvents?: boolean
+  /** Calendar name shown by calendar apps. */
+  calendarName?: string
+  now?: Date
+}
+
+/**
+ * Returns the stable iCalendar UID of a todo, so re-imports update the existing entry.
+ */
+export const todoToUid = (todoId: string): string => `${todoId}@${UID_DOMAIN}`
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11).
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+/**
+ * Folds a content line into chunks of at most 75 octets, continued with a leading space.
+ * Multi-byte characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const chunks: string[] = []
+  let current = ''
+  let currentOctets = 0
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      chunks.push(current)
+      current = ''
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME value, e.g. 20260115T093000Z.
+ */
+const formatUtcDateTime = (value: string | Date): string | null => {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Formats a YYYY-MM-DD date as a DATE value, e.g. 20260115.
+ */
+const formatDateValue = (date: string): string => date.slice(0, 10).replace(/-/g, '')
+
+const buildAlarms = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  timeZone?: string | null
+): string[] => {
+  if (!isTodoActive(todo)) return []
+
+  const lines: string[] = []
+  for (const reminder of resolveReminderTimes(todo, settings, timeZone)) {
+    const trigger = formatUtcDateTime(reminder.at)
+    if (!trigger) continue
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(todo.title)}`,
+      `TRIGGER;VALUE=DATE-TIME:${trigger}`,
+      'END:VALARM'
+    )
+  }
+  return lines
+}
+
+const buildComponent = (todo: WorkTodo, options: ICalendarExportOptions, stamp: string): string[] => {
+  const asEvent = !todo.allDay && options.timedAsEvents !== false
+  const component = asEvent ? 'VEVENT' : 'VTODO'
+  const lines = [`BEGIN:${component}`, `UID:${todoToUid(todo.id)}`, `DTSTAMP:${stamp}`]
+
+  const created = formatUtcDateTime(todo.createdAt)
+  if (created) lines.push(`CREATED:${created}`)
+  const modified = formatUtcDateTime(todo.updatedAt)
+  if (modified) lines.push(`LAST-MODIFIED:${modified}`)
+
+  lines.push(`SUMMARY:${escapeText(todo.title)}`)
+  if (todo.description) lines.push(`DESCRIPTION:${escapeText(todo.description)}`)
+
+  const due = todo.allDay ? null : formatUtcDateTime(todo.dueAt)
+  if (todo.allDay) {
+    lines.push(`DUE;VALUE=DATE:${formatDateValue(todo.date || todo.dueAt)}`)
+  } else if (due) {
+    lines.push(asEvent ? `DTSTART:${due}` : `DUE:${due}`)
+  }
+
+  if (asEvent) {
+    lines.push(`STATUS:${todo.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`)
+  } else {
+    lines.push(`STATUS:${TODO_STATUS[todo.status]}`)
+  }
+
+  const priority = ICAL_PRIORITY[todo.priority] ?? 0
+  if (priority > 0) lines.push(`PRIORITY:${priority}`)
+
+  const categories = [
+    todo.projectId ? options.projectNames?.get(todo.projectId) : undefined,
+    ...(todo.tags ?? []),
+  ].filter((entry): entry is string => Boolean(entry))
+  if (categories.length > 0) {
+    lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`)
+  }
+
+  lines.push(...buildAlarms(todo, options.settings, options.timeZone), `END:${component}`)
+  return lines
+}
+
+/**
+ * Renders todos as an RFC 5545 calendar. Timed todos become events unless
+ * `timedAsEvents` is false; all-day todos are tasks due on their date. Active todos
+ * carry one alarm per reminder.
+ * @returns The calendar, with CRLF line endings
+ */
+export const buildICalendar = (todos: WorkTodo[], options: ICalendarExportOptions): string => {
+  const stamp = formatUtcDateTime(options.now ?? new Date()) as string
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ]
+  if (options.calendarName) lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`)
+
+  for (const todo of todos) {
+    lines.push(...buildComponent(todo, options, stamp))
+  }
+
+  lines.push('END:VCALENDAR')
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
+
+/** A VTODO or VEVENT read from a calendar, with its due date resolved to an instant. */
+export interface ICalendarEntry {
+  uid: string
+  component: 'VTODO' | 'VEVENT'
+  title: string
+  description?: string
+  /** ISO 8601; all-day entries carry the local date with its UTC offset. */
+  dueAt: string
+  /** YYYY-MM-DD in the entry's own time zone. */
+  date: string
+  /** HH:MM in the entry's own time zone; 00:00 for all-day entries. */
+  time: string
+  allDay: boolean
+  status?: WorkTodoStatus
+  priority?: WorkTodoPriority
+  /** Minutes before due, one per alarm, largest first. */
+  reminders?: number[]
+  recurrence?: WorkTodoRecurrence
+  categories: string[]
+}
+
+export interface ICalendarSkipped {
+  uid: string | null
+  title: string | null
+  reason: string
+}
+
+export interface ICalendarParseResult {
+  entries: ICalendarEntry[]
+  skipped: ICalendarSkipped[]
+}
+
+interface ContentLine {
+  name: string
+  params: Map<string, string>
+  value: string
+}
+
+interface RawComponent {
+  name: string
+  properties: ContentLine[]
+  alarms: ContentLine[][]
+}
+
+/**
+ * Returns the todo ID encoded in a UID produced by work_export_ics, or null for other UIDs.
+ */
+export const uidToTodoId = (uid: string): string | null => {
+  const suffix = `@${UID_DOMAIN}`
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) || null : null
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+
+/**
+ * Splits a content line into name, parameters and value. Quoted parameter values may
+ * contain ':' and ';'.
+ */
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false
+  const separators: number[] = []
+  let colon = -1
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && char === ';') separators.push(index)
+    else if (!inQuotes && char === ':') {
+      colon = index
+      break
+    }
+  }
+  if (colon <= 0) return null
+
+  const bounds = [...separators, colon]
+  const name = line.slice(0, bounds[0]).trim().toUpperCase()
+  const params = new Map<string, string>()
+  for (let index = 0; index < bounds.length - 1; index++) {
+    const param = line.slice(bounds[index] + 1, bounds[index + 1])
+    const equals = param.indexOf('=')
+    if (equals <= 0) continue
+    params.set(
+      param.slice(0, equals).trim().toUpperCase(),
+      param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1')
+    )
+  }
+  return { name, params, value: line.slice(colon + 1) }
+}
+
+/**
+ * Unfolds continuation lines and groups the content lines into VTODO and VEVENT
+ * components, each with the properties of its VALARMs.
+ */
+const readComponents = (text: string): RawComponent[] => {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+  const components: RawComponent[] = []
+  let current: RawComponent | null = null
+  let alarm: ContentLine[] | null = null
+  let nested = 0
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue
+    const line = parseContentLine(raw)
+    if (!line) continue
+    const value = line.value.trim().toUpperCase()
+
+    if (line.name === 'BEGIN') {
+      if (!current && (value === 'VTODO' || value === 'VEVENT')) {
+        current = { name: value, properties: [], alarms: [] }
+      } else if (current && !alarm && nested === 0 && value === 'VALARM') {
+        alarm = []
+      } else if (current) {
+        nested++
+      }
+      continue
+    }
+    if (line.name === 'END') {
+      if (nested > 0) nested--
+      else if (alarm && value === 'VALARM') {
+        current?.alarms.push(alarm)
+        alarm = null
+      } else if (current && value === current.name) {
+        components.push(current)
+        current = null
+      }
+      continue
+    }
+
+    if (nested > 0) continue
+    if (alarm) alarm.push(line)
+    else current?.properties.push(line)
+  }
+
+  return components
+}
+
+/**
+ * Resolves a DATE or DATE-TIME property. UTC times are kept, times with a TZID are read in
+ * that zone, and floating times and dates in the user's time zone.
+ */
+const parseDateProperty = (
+  line: ContentLine,
+  timeZone: string | null
+): Pick<ICalendarEntry, 'dueAt' | 'date' | 'time' | 'allDay'> | null => {
+  const match = line.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i)
+  if (!match) return null
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  if (match[4] === undefined || line.params.get('VALUE')?.toUpperCase() === 'DATE') {
+    const offset = resolveUtcOffset(date, '00:00', timeZone)
+    return { dueAt: `${date}T00:00:00${offset}`, date, time: '00:00', allDay: true }
+  }
+
+  const time = `${match[4]}:${match[5]}`
+  const seconds = match[6] ?? '00'
+  if (match[7]) {
+    const instant = new Date(`${date}T${time}:${seconds}Z`)
+    if (Number.isNaN(instant.getTime())) return null
+    return { dueAt: instant.toISOString(), date, time, allDay: false }
+  }
+
+  const tzid = line.params.get('TZID')
+  const zone = tzid && isValidTimeZone(tzid) ? tzid : timeZone
+  const offset = resolveUtcOffset(date, `${time}:${seconds}`, zone)
+  return { dueAt: `${date}T${time}:${seconds}${offset}`, date, time, allDay: false }
+}
+
+/**
+ * Parses a DURATION value (e.g. -PT15M, -P1D) into minutes; negative means before.
+ */
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i)
+  if (!match || value.trim().toUpperCase().endsWith('T')) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Math.round(Number(seconds ?? 0) / 60)
+  return sign === '-' ? -total : total
+}
+
+/**
+ * Converts VALARM triggers into reminder offsets (minutes before due). Triggers after the
+ * due time and alarms without a usable trigger are dropped.
+ */
+const parseAlarms = (alarms: ContentLine[][], dueAt: string): number[] => {
+  const offsets = new Set<number>()
+  for (const alarm of alarms) {
+    const trigger = alarm.find((line) => line.name === 'TRIGGER')
+    if (!trigger) continue
+
+    let minutesBefore: number | null = null
+    if (trigger.params.get('VALUE')?.toUpperCase() === 'DATE-TIME') {
+      const at = parseDateProperty(trigger, null)
+      if (at) {
+        const difference = new Date(dueAt).getTime() - new Date(at.dueAt).getTime()
+        minutesBefore = Math.round(difference / 60000)
+      }
+    } else {
+      const duration = parseDurationMinutes(trigger.value)
+      if (duration !== null) minutesBefore = -duration
+    }
+
+    if (minutesBefore !== null && Number.isFinite(minutesBefore) && minutesBefore >= 0) {
+      offsets.add(minutesBefore)
+    }
+  }
+  return [...offsets].sort((a, b) => b - a).slice(0, MAX_REMINDERS_PER_TODO)
+}
+
+const parsePriority = (value: string): WorkTodoPriority | undefined => {
+  const priority = Number(value.trim())
+  if (!Number.isInteger(priority) || priority < 0 || priority > 9) return undefined
+  if (priority === 0) return 'none'
+  if (priority === 1) return 'urgent'
+  if (priority <= 4) return 'high'
+  if (priority === 5) return 'medium'
+  return 'low'
+}
+
+/**
+ * Splits a comma-separated TEXT list, honouring escaped commas.
+ */
+const splitTextList = (value: string): string[] =>
+  value
+    .split(/(?<!\\),/)
+    .map((entry) => unescapeText(entry).trim())
+    .filter(Boolean)
+
+const toEntry = (
+  component: RawComponent,
+  timeZone: string | null
+): ICalendarEntry | ICalendarSkipped => {
+  const property = (name: string) => component.properties.find((line) => line.name === name)
+  const uid = property('UID')?.value.trim() || null
+  const title = property('SUMMARY') ? unescapeText(property('SUMMARY')!.value).trim() : null
+
+  if (!uid) return { uid, title, reason: 'missing UID' }
+  if (!title) return { uid, title, reason: 'missing SUMMARY' }
+
+  const dateLine =
+    component.name === 'VTODO' ? property('DUE') ?? property('DTSTART') : property('DTSTART')
+  if (!dateLine) return { uid, title, reason: 'no due date or start time' }
+  const due = parseDateProperty(dateLine, timeZone)
+  if (!due) return { uid, title, reason: `unreadable date "${dateLine.value}"` }
+
+  const statusValue = property('STATUS')?.value.trim().toUpperCase()
+  let status: WorkTodoStatus | undefined
+  if (component.name === 'VTODO') {
+    status = statusValue ? IMPORTED_STATUS[statusValue] : undefined
+    if (!status && property('COMPLETED')) status = 'completed'
+  } else if (statusValue === 'CANCELLED') {
+    status = 'cancelled'
+  }
+
+  const rrule = property('RRULE')
+  const recurrence = rrule ? parseRRule(rrule.value) : null
+  const description = property('DESCRIPTION')
+  const priority = property('PRIORITY')
+
+  return {
+    uid,
+    component: component.name as ICalendarEntry['component'],
+    title,
+    description: description ? unescapeText(description.value).trim() || undefined : undefined,
+    ...due,
+    status,
+    priority: priority ? parsePriority(priority.value) : undefined,
+    reminders: component.alarms.length > 0 ? parseAlarms(component.alarms, due.dueAt) : undefined,
+    recurrence: recurrence?.ok && recurrence.recurrence ? recurrence.recurrence : undefined,
+    categories: component.properties
+      .filter((line) => line.name === 'CATEGORIES')
+      .flatMap((line) => splitTextList(line.value)),
+  }
+}
+
+/**
+ * Reads the VTODO and VEVENT components of an RFC 5545 calendar. Entries without a UID,
+ * summary or usable date are reported as skipped. Floating times and dates are read in
+ * `timeZone` when given, otherwise as UTC.
+ */
+export const parseICalendar = (text: string, timeZone?: string | null): ICalendarParseResult => {
+  const result: ICalendarParseResult = { entries: [], skipped: [] }
+  for (const component of readComponents(text)) {
+    const entry = toEntry(component, timeZone ?? null)
+    if ('reason' in entry) result.skipped.push(entry)
+    else result.entries.push(entry)
+  }
+  return result
+}
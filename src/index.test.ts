@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest'
+
+const runtime = vi.hoisted(() => ({ initializeExtension: vi.fn() }))
+
+vi.mock('@stina/extension-api/runtime', () => runtime)
+
+const createContext = () => ({
+  log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  database: { execute: vi.fn(async (_sql: string): Promise<unknown[]> => []) },
+  tools: { register: vi.fn((_tool: { id: string }) => ({ dispose: vi.fn() })) },
+  actions: { register: vi.fn(() => ({ dispose: vi.fn() })) },
+})
+
+const loadExtension = async () => {
+  await import('./index.js')
+  const [extension] = runtime.initializeExtension.mock.calls[0]
+  return extension as { activate: (context: unknown) => { dispose: () => void } }
+}
+
+describe('activate', () => {
+  it('registers the tools and actions with the host', async () => {
+    const { activate } = await loadExtension()
+    const context = createContext()
+
+    const disposable = activate(context)
+
+    expect(context.tools.register).toHaveBeenCalled()
+    const ids = context.tools.register.mock.calls.map(([tool]) => tool.id)
+    expect(ids).toContain('work_todos_list')
+    expect(ids).toContain('work_import_todotxt')
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(context.actions.register).toHaveBeenCalled()
+    disposable.dispose()
+  })
+
+  it('schedules the daily digest again for users who turned it on', async () => {
+    const { activate } = await loadExtension()
+    const context = createContext()
+    const scheduler = { schedule: vi.fn(async () => undefined), cancel: vi.fn(), onFire: vi.fn() }
+    context.database.execute.mockImplementation(async (sql: string) => {
+      if (sql.includes("key = 'digestEnabled'")) return [{ user_id: 'user-1' }]
+      if (sql.includes('SELECT key, value FROM ext_work_manager_user_settings')) {
+        return [
+          { key: 'digestEnabled', value: 'true' },
+          { key: 'digestTime', value: '"08:00"' },
+        ]
+      }
+      return []
+    })
+
+    const disposable = activate({ ...context, scheduler })
+
+    await vi.waitFor(() => expect(scheduler.schedule).toHaveBeenCalled())
+    expect(scheduler.schedule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'work.digest:user-1',
+        misfire: 'run_once',
+        userId: 'user-1',
+      })
+    )
+    disposable.dispose()
+  })
+})
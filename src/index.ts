@@ -2,28 +2,73 @@
  * Work Manager Extension for Stina
  */
 
-import { initializeExtension, type ExtensionContext, type ExecutionContext, type Disposable } from '@stina/extension-api/runtime'
+import {
+  initializeExtension,
+  type ExtensionContext,
+  type ExecutionContext,
+  type Disposable,
+  type Tool,
+} from '@stina/extension-api/runtime'
 import {
   createListProjectsTool,
   createGetProjectTool,
   createUpsertProjectTool,
   createDeleteProjectTool,
+  createArchiveProjectTool,
+  createUnarchiveProjectTool,
   createListTodosTool,
   createGetTodoTool,
   createUpsertTodoTool,
   createDeleteTodoTool,
+  createSnoozeTodoTool,
+  createTodoHistoryTool,
+  createListTrashTool,
+  createRestoreFromTrashTool,
+  createPurgeTrashTool,
   createAddCommentTool,
   createDeleteCommentTool,
   createAddSubItemTool,
   createDeleteSubItemTool,
+  createToggleSubItemTool,
+  createUpdateSubItemTool,
+  createReorderSubItemsTool,
+  createPromoteSubItemTool,
+  createSearchTool,
+  createExportIcsTool,
+  createImportIcsTool,
+  createExportMarkdownTool,
+  createImportMarkdownTool,
+  createExportTodoTxtTool,
+  createImportTodoTxtTool,
+  createExportBackupTool,
+  createImportBackupTool,
+  createAddDependencyTool,
+  createRemoveDependencyTool,
+  createListTagsTool,
+  createRenameTagTool,
+  createMergeTagsTool,
+  createDeleteTagTool,
   createListSettingsTool,
   createGetSettingsTool,
   createUpdateSettingsTool,
 } from './tools/index.js'
 import { WorkRepository } from './db/repository.js'
-import { buildInstructionMessage, isTodoActive, resolveReminderAt } from './reminders.js'
+import { buildDigestMessage, buildDigestSections, resolveNextDigestAt } from './digest.js'
+import {
+  buildInstructionMessage,
+  buildOverdueMessage,
+  isOverdueFollowUpDue,
+  isTodoActive,
+  MAX_REMINDERS_PER_TODO,
+  normalizeReminderList,
+  normalizeSnoozeOption,
+  resolveOverdueFollowUpAt,
+  resolveReminderSchedule,
+  resolveSnoozeUntil,
+} from './reminders.js'
 import type { SchedulerFirePayload } from './reminders.js'
-import type { WorkTodo } from './types.js'
+import { isValidTimeZone } from './timezone.js'
+import type { WorkSettings, WorkTodo } from './types.js'
 
 type EventsApi = { emit: (name: string, payload?: Record<string, unknown>) => Promise<void> }
 
@@ -56,6 +101,17 @@ type ChatAPI = {
   appendInstruction: (message: { text: string; conversationId?: string; userId?: string }) => Promise<void>
 }
 
+type UserProfile = {
+  name?: string
+  language?: string | null
+  timezone?: string | null
+}
+
+/** A tool or action: something the host runs on behalf of a user. */
+type RequestHandler = {
+  execute: (params: Record<string, unknown>, execContext: ExecutionContext) => Promise<unknown>
+}
+
 type UserApi = {
   getProfile: () => Promise<{
     firstName?: string
@@ -78,8 +134,17 @@ function activate(context: ExtensionContext): Disposable {
   }
 
   // Repository is created without a user scope - use repository.withUser(userId) for user-scoped operations
-  const repository = new WorkRepository(context.database as DatabaseApi)
-  void repository.initialize()
+  const repository = new WorkRepository(context.database as DatabaseApi, {
+    profileTimeZone: (userId) => profiles.get(userId)?.timezone,
+  })
+  void repository
+    .getSchemaVersion()
+    .then((schemaVersion) => context.log.info('Work Manager database ready', { schemaVersion }))
+    .catch((error) => {
+      context.log.warn('Work Manager database migration failed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
 
   const eventsApi = (context as ExtensionContext & { events?: EventsApi }).events
   const emitEvent = (name: string) => {
@@ -96,20 +161,38 @@ function activate(context: ExtensionContext): Disposable {
   const userApi = (context as ExtensionContext & { user?: UserApi }).user
   const actionsApi = (context as ExtensionContext & { actions?: ActionsApi }).actions
 
-  const getReminderJobId = (todoId: string, userId: string): string => {
-    return `todo.reminder:${userId}:${todoId}`
+  const getReminderJobId = (todoId: string, userId: string, index = 0): string => {
+    // The first reminder keeps the original job id so existing jobs are replaced, not duplicated
+    const base = `todo.reminder:${userId}:${todoId}`
+    return index === 0 ? base : `${base}:${index}`
   }
 
-  const resolveUserProfile = async (): Promise<{
-    name?: string
-    language?: string | null
-  }> => {
+  const getReminderJobIds = (todoId: string, userId: string): string[] => {
+    return Array.from({ length: MAX_REMINDERS_PER_TODO }, (_, index) =>
+      getReminderJobId(todoId, userId, index)
+    )
+  }
+
+  const getOverdueJobId = (todoId: string, userId: string): string => {
+    return `todo.overdue:${userId}:${todoId}`
+  }
+
+  const getDigestJobId = (userId: string): string => {
+    return `work.digest:${userId}`
+  }
+
+  const getTrashPurgeJobId = (userId: string): string => {
+    return `work.trash-purge:${userId}`
+  }
+
+  const resolveUserProfile = async (): Promise<UserProfile> => {
     if (!userApi) return {}
     try {
       const profile = await userApi.getProfile()
       return {
         name: profile.nickname ?? profile.firstName,
         language: profile.language ?? null,
+        timezone: profile.timezone ?? null,
       }
     } catch (error) {
       context.log.warn('Failed to load user profile', {
@@ -119,36 +202,111 @@ function activate(context: ExtensionContext): Disposable {
     }
   }
 
+  /** Profiles by user ID, refreshed whenever a request runs for that user. */
+  const profiles = new Map<string, UserProfile>()
+
+  /**
+   * Loads the profile of the user a request runs for. The host only returns the profile of
+   * the current request's user, so it is read once up front and cached for scheduled jobs
+   * and for code running inside transactions.
+   * @param userId The user ID of the request
+   */
+  const rememberProfile = async (userId: string | undefined): Promise<void> => {
+    if (!userId || !userApi) return
+    const profile = await resolveUserProfile()
+    if (Object.keys(profile).length > 0) profiles.set(userId, profile)
+  }
+
+  /**
+   * Wraps a tool or action so the caller's profile is cached before it runs.
+   */
+  const withProfile = <T extends RequestHandler>(handler: T): T => {
+    const execute = handler.execute.bind(handler)
+    return {
+      ...handler,
+      execute: async (params: Record<string, unknown>, execContext: ExecutionContext) => {
+        await rememberProfile(execContext.userId)
+        return execute(params, execContext)
+      },
+    }
+  }
+
+  const registerTool = (tool: Tool): Disposable => context.tools!.register(withProfile(tool))
+
+  const registerAction = (action: Parameters<ActionsApi['register']>[0]) =>
+    actionsApi!.register(withProfile(action))
+
   /**
-   * Schedule a reminder for a todo item.
+   * Schedule (or cancel) the next overdue follow-up for a todo item.
+   * @param todo The todo to schedule
+   * @param userId The user ID to scope the follow-up to
+   * @param settings The user's settings
+   * @param timeZone The user's time zone, if known
+   */
+  const scheduleOverdueFollowUp = async (
+    todo: WorkTodo,
+    userId: string,
+    settings: WorkSettings,
+    timeZone: string | null
+  ): Promise<void> => {
+    if (!scheduler) return
+    const jobId = getOverdueJobId(todo.id, userId)
+    const followUpAt = resolveOverdueFollowUpAt(todo, settings, timeZone)
+    if (!followUpAt) {
+      await scheduler.cancel(jobId)
+      return
+    }
+
+    await scheduler.schedule({
+      id: jobId,
+      schedule: { type: 'at', at: followUpAt },
+      payload: { kind: 'overdue', todoId: todo.id, userId },
+      misfire: 'run_once',
+      userId,
+    })
+  }
+
+  /**
+   * Schedule the reminders for a todo item, one job per reminder time. Todos of archived
+   * projects get no reminders.
    * @param todo The todo to schedule
    * @param userId The user ID to scope the reminder to
    */
   const scheduleTodo = async (todo: WorkTodo, userId: string): Promise<void> => {
     if (!scheduler) return
     try {
-      const jobId = getReminderJobId(todo.id, userId)
+      const jobIds = getReminderJobIds(todo.id, userId)
+      const userRepo = repository.withUser(userId)
+      const project = todo.projectId ? await userRepo.getProject(todo.projectId) : null
 
-      if (!isTodoActive(todo)) {
-        await scheduler.cancel(jobId)
+      if (!isTodoActive(todo) || project?.archivedAt) {
+        for (const jobId of [...jobIds, getOverdueJobId(todo.id, userId)]) {
+          await scheduler.cancel(jobId)
+        }
         return
       }
 
-      const userRepo = repository.withUser(userId)
       const settings = await userRepo.getSettings()
-      const reminderAt = resolveReminderAt(todo, settings)
-      if (!reminderAt) {
-        await scheduler.cancel(jobId)
-        return
+      const timeZone = await userRepo.getTimeZone()
+      const reminders = resolveReminderSchedule(todo, settings, new Date(), timeZone)
+
+      for (const [index, jobId] of jobIds.entries()) {
+        const reminder = reminders[index]
+        if (!reminder) {
+          await scheduler.cancel(jobId)
+          continue
+        }
+
+        await scheduler.schedule({
+          id: jobId,
+          schedule: { type: 'at', at: reminder.at },
+          payload: { todoId: todo.id, userId, reminderMinutes: reminder.minutes },
+          misfire: 'run_once',
+          userId,
+        })
       }
 
-      await scheduler.schedule({
-        id: jobId,
-        schedule: { type: 'at', at: reminderAt },
-        payload: { todoId: todo.id, userId },
-        misfire: 'run_once',
-        userId,
-      })
+      await scheduleOverdueFollowUp(todo, userId, settings, timeZone)
     } catch (error) {
       context.log.warn('Failed to schedule todo reminder', {
         id: todo.id,
@@ -158,14 +316,33 @@ function activate(context: ExtensionContext): Disposable {
   }
 
   /**
-   * Cancel a scheduled reminder for a todo item.
+   * Load a todo and schedule its reminder, e.g. for a newly spawned recurring occurrence.
+   * @param todoId The todo ID
+   * @param userId The user ID
+   */
+  const scheduleTodoById = async (todoId: string, userId: string): Promise<void> => {
+    try {
+      const todo = await repository.withUser(userId).getTodo(todoId)
+      if (todo) await scheduleTodo(todo, userId)
+    } catch (error) {
+      context.log.warn('Failed to load todo for reminder', {
+        id: todoId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Cancel all scheduled reminders for a todo item.
    * @param todoId The todo ID
    * @param userId The user ID
    */
   const cancelTodo = async (todoId: string, userId: string): Promise<void> => {
     if (!scheduler) return
     try {
-      await scheduler.cancel(getReminderJobId(todoId, userId))
+      for (const jobId of [...getReminderJobIds(todoId, userId), getOverdueJobId(todoId, userId)]) {
+        await scheduler.cancel(jobId)
+      }
     } catch (error) {
       context.log.warn('Failed to cancel todo reminder', {
         id: todoId,
@@ -183,36 +360,245 @@ function activate(context: ExtensionContext): Disposable {
     try {
       const userRepo = repository.withUser(userId)
       const pageSize = 200
-      let offset = 0
+      let cursor: string | undefined
 
-      while (true) {
-        const todos = await userRepo.listTodos({ limit: pageSize, offset })
-        if (todos.length === 0) break
+      // Cursor paging keeps the walk stable while todos are created or rescheduled
+      do {
+        const page = await userRepo.listTodos({ limit: pageSize, cursor })
+        for (const todo of page.items) {
+          await scheduleTodo(todo, userId)
+        }
+        cursor = page.nextCursor ?? undefined
+      } while (cursor)
+    } catch (error) {
+      context.log.warn('Failed to schedule reminders for todos', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Schedule (or cancel) reminders for all todos of a project, e.g. after it is archived.
+   * @param projectId The project ID
+   * @param userId The user ID
+   */
+  const scheduleProjectTodos = async (projectId: string, userId: string): Promise<void> => {
+    if (!scheduler) return
+    try {
+      const userRepo = repository.withUser(userId)
+      let cursor: string | undefined
 
-        for (const todo of todos) {
+      do {
+        const page = await userRepo.listTodos({ projectId, limit: 200, cursor })
+        for (const todo of page.items) {
           await scheduleTodo(todo, userId)
         }
+        cursor = page.nextCursor ?? undefined
+      } while (cursor)
+    } catch (error) {
+      context.log.warn('Failed to schedule reminders for project todos', {
+        projectId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
 
-        if (todos.length < pageSize) break
-        offset += pageSize
+  /**
+   * Schedule (or cancel) the daily agenda digest for a user based on their settings.
+   * @param userId The user ID
+   */
+  const scheduleDigest = async (userId: string): Promise<void> => {
+    if (!scheduler) return
+    try {
+      const jobId = getDigestJobId(userId)
+      const userRepo = repository.withUser(userId)
+      const settings = await userRepo.getSettings()
+      const digestAt = resolveNextDigestAt(settings, new Date(), await userRepo.getTimeZone())
+      if (!digestAt) {
+        await scheduler.cancel(jobId)
+        return
       }
+
+      await scheduler.schedule({
+        id: jobId,
+        schedule: { type: 'at', at: digestAt },
+        payload: { kind: 'digest', userId },
+        misfire: 'run_once',
+        userId,
+      })
     } catch (error) {
-      context.log.warn('Failed to schedule reminders for todos', {
+      context.log.warn('Failed to schedule daily digest', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Schedule (or cancel) the purge of the oldest item in a user's trash, based on the
+   * retention setting.
+   * @param userId The user ID
+   */
+  const scheduleTrashPurge = async (userId: string): Promise<void> => {
+    if (!scheduler) return
+    try {
+      const jobId = getTrashPurgeJobId(userId)
+      const purgeAt = await repository.withUser(userId).getNextTrashPurgeAt()
+      if (!purgeAt) {
+        await scheduler.cancel(jobId)
+        return
+      }
+
+      await scheduler.schedule({
+        id: jobId,
+        schedule: { type: 'at', at: purgeAt },
+        payload: { kind: 'trash', userId },
+        misfire: 'run_once',
+        userId,
+      })
+    } catch (error) {
+      context.log.warn('Failed to schedule trash purge', {
         userId,
         error: error instanceof Error ? error.message : String(error),
       })
     }
   }
 
+  /**
+   * Purge expired items from a user's trash and schedule the next purge.
+   * @param userId The user ID
+   */
+  const purgeExpiredTrash = async (userId: string): Promise<void> => {
+    try {
+      const purged = await repository.withUser(userId).purgeExpiredTrash()
+      if (purged > 0) {
+        context.log.info('Purged expired trash', { userId, purged })
+        emitTodoRefresh()
+        emitProjectRefresh()
+      }
+    } finally {
+      await scheduleTrashPurge(userId)
+    }
+  }
+
+  /**
+   * Post the daily agenda digest to chat, unless there is nothing to report,
+   * and schedule the next one.
+   * @param userId The user ID
+   */
+  const sendDigest = async (userId: string): Promise<void> => {
+    const userRepo = repository.withUser(userId)
+    const settings = await userRepo.getSettings()
+    if (!settings.digestEnabled) return
+
+    try {
+      const pageSize = 200
+      const todos: WorkTodo[] = []
+      let cursor: string | undefined
+      do {
+        const page = await userRepo.listTodos({ limit: pageSize, cursor })
+        todos.push(...page.items)
+        cursor = page.nextCursor ?? undefined
+      } while (cursor)
+
+      const projectNames = new Map<string, string>()
+      do {
+        const page = await userRepo.listProjects({ limit: pageSize, cursor })
+        for (const project of page.items) projectNames.set(project.id, project.name)
+        cursor = page.nextCursor ?? undefined
+      } while (cursor)
+
+      const sections = buildDigestSections(
+        todos,
+        projectNames,
+        new Date(),
+        await userRepo.getTimeZone()
+      )
+      if (sections.length > 0 && chat) {
+        const profile = profiles.get(userId)
+        const message = buildDigestMessage(sections, settings, {
+          userName: profile?.name,
+          userLanguage: profile?.language,
+        })
+        await chat.appendInstruction({ text: message, userId })
+      }
+    } finally {
+      await scheduleDigest(userId)
+    }
+  }
+
+  /**
+   * Send an overdue follow-up for a todo that is still active, and schedule the next one
+   * until the configured cap is reached.
+   * @param todoId The todo ID
+   * @param userId The user ID
+   */
+  const sendOverdueFollowUp = async (todoId: string, userId: string): Promise<void> => {
+    if (!chat) return
+    const userRepo = repository.withUser(userId).withSource('reminder')
+    const todo = await userRepo.getTodo(todoId)
+    if (!todo || !isTodoActive(todo)) return
+
+    const settings = await userRepo.getSettings()
+    const timeZone = await userRepo.getTimeZone()
+    // A follow-up that fires early or was superseded by a reschedule is not sent
+    if (!isOverdueFollowUpDue(todo, settings, timeZone)) return
+
+    const updated = await userRepo.recordOverdueFollowUp(todoId)
+    if (!updated) return
+
+    const profile = profiles.get(userId)
+    const message = buildOverdueMessage(updated, settings, {
+      userName: profile?.name,
+      userLanguage: profile?.language,
+    })
+    await chat.appendInstruction({ text: message, userId })
+    await scheduleOverdueFollowUp(updated, userId, settings, timeZone)
+  }
+
+  /**
+   * Refresh the panel and reschedule reminders after a todo was created or updated,
+   * including the next occurrence spawned by completing a recurring todo.
+   * @param todo The changed todo
+   * @param userId The user ID
+   */
+  const handleTodoChanged = (todo: WorkTodo, userId: string): void => {
+    emitTodoRefresh()
+    void scheduleTodo(todo, userId)
+    if (todo.nextOccurrenceId) {
+      void scheduleTodoById(todo.nextOccurrenceId, userId)
+    }
+  }
+
   const schedulerDisposable = scheduler?.onFire((payload, execContext) => {
     void (async () => {
       try {
-        if (!chat) return
-
         // Verify the reminder belongs to this user using request-scoped context
         const payloadUserId = payload.payload?.userId as string | undefined
         const currentUserId = execContext.userId
         if (!currentUserId || payloadUserId !== currentUserId) return
+        await rememberProfile(currentUserId)
+
+        if (payload.payload?.kind === 'trash') {
+          await purgeExpiredTrash(currentUserId)
+          return
+        }
+
+        if (!chat) return
+
+        if (payload.payload?.kind === 'digest') {
+          await sendDigest(currentUserId)
+          return
+        }
+
+        if (payload.payload?.kind === 'overdue') {
+          const overdueTodoId = payload.payload?.todoId
+          if (typeof overdueTodoId === 'string') {
+            await sendOverdueFollowUp(overdueTodoId, currentUserId)
+          }
+          return
+        }
 
         const todoId = payload.payload?.todoId
         if (!todoId || typeof todoId !== 'string') return
@@ -223,7 +609,7 @@ function activate(context: ExtensionContext): Disposable {
         if (!todo || !isTodoActive(todo)) return
 
         const settings = await userRepo.getSettings()
-        const profile = await resolveUserProfile()
+        const profile = profiles.get(currentUserId)
         const message = buildInstructionMessage(todo, payload, settings, {
           userName: profile?.name,
           userLanguage: profile?.language,
@@ -240,7 +626,7 @@ function activate(context: ExtensionContext): Disposable {
   // Register UI actions for component-based panels and settings
   const actionDisposables = actionsApi
     ? [
-        actionsApi.register({
+        registerAction({
           id: 'getGroups',
           async execute(_params: Record<string, unknown>, execContext: ExecutionContext) {
             try {
@@ -258,7 +644,143 @@ function activate(context: ExtensionContext): Disposable {
             }
           },
         }),
-        actionsApi.register({
+        registerAction({
+          id: 'cycleTodoStatus',
+          async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
+            try {
+              if (!execContext.userId) {
+                return { success: false, error: 'User context required' }
+              }
+              const todoId = params.todoId as string | undefined
+              if (!todoId) return { success: false, error: 'todoId is required' }
+              const userRepo = repository.withUser(execContext.userId).withSource('panel')
+              const todo = await userRepo.cycleTodoStatus(todoId)
+              if (!todo) return { success: false, error: 'Todo not found' }
+              handleTodoChanged(todo, execContext.userId)
+              return { success: true, data: todo }
+            } catch (error) {
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }
+            }
+          },
+        }),
+        registerAction({
+          id: 'snoozeTodo',
+          async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
+            try {
+              if (!execContext.userId) {
+                return { success: false, error: 'User context required' }
+              }
+              const todoId = params.todoId as string | undefined
+              const option = normalizeSnoozeOption(params.duration)
+              if (!todoId || !option) {
+                return { success: false, error: 'todoId and a valid duration are required' }
+              }
+              const userRepo = repository.withUser(execContext.userId).withSource('panel')
+              const existing = await userRepo.getTodo(todoId)
+              if (!existing) return { success: false, error: 'Todo not found' }
+              if (!isTodoActive(existing)) {
+                return { success: false, error: 'Completed or cancelled todos cannot be snoozed' }
+              }
+              const settings = await userRepo.getSettings()
+              const todo = await userRepo.snoozeTodo(
+                todoId,
+                resolveSnoozeUntil(
+                  option,
+                  existing,
+                  settings,
+                  new Date(),
+                  await userRepo.getTimeZone()
+                )
+              )
+              if (!todo) return { success: false, error: 'Todo not found' }
+              handleTodoChanged(todo, execContext.userId)
+              return { success: true, data: todo }
+            } catch (error) {
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }
+            }
+          },
+        }),
+        registerAction({
+          id: 'toggleSubItem',
+          async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
+            try {
+              if (!execContext.userId) {
+                return { success: false, error: 'User context required' }
+              }
+              const todoId = params.todoId as string | undefined
+              const subItemId = params.subItemId as string | undefined
+              if (!todoId || !subItemId) {
+                return { success: false, error: 'todoId and subItemId are required' }
+              }
+              const userRepo = repository.withUser(execContext.userId).withSource('panel')
+              const toggled = await userRepo.toggleSubItem(todoId, subItemId)
+              if (!toggled) return { success: false, error: 'Subitem not found' }
+              emitTodoRefresh()
+              return { success: true }
+            } catch (error) {
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }
+            }
+          },
+        }),
+        registerAction({
+          id: 'toggleGroup',
+          async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
+            try {
+              if (!execContext.userId) {
+                return { success: false, error: 'User context required' }
+              }
+              const groupId = params.groupId as string | undefined
+              if (!groupId) return { success: false, error: 'groupId is required' }
+              // The panel passes the group's current state; the template may stringify it
+              const collapsed = params.collapsed === true || params.collapsed === 'true'
+              const userRepo = repository.withUser(execContext.userId)
+              const updated = await userRepo.setGroupCollapsed(groupId, !collapsed)
+              if (!updated) return { success: false, error: 'Group not found' }
+              emitTodoRefresh()
+              return { success: true }
+            } catch (error) {
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }
+            }
+          },
+        }),
+        registerAction({
+          id: 'deleteComment',
+          async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
+            try {
+              if (!execContext.userId) {
+                return { success: false, error: 'User context required' }
+              }
+              const todoId = params.todoId as string | undefined
+              const commentId = params.commentId as string | undefined
+              if (!todoId || !commentId) {
+                return { success: false, error: 'todoId and commentId are required' }
+              }
+              const userRepo = repository.withUser(execContext.userId).withSource('panel')
+              const deleted = await userRepo.deleteComment(todoId, commentId)
+              if (!deleted) return { success: false, error: 'Comment not found' }
+              emitTodoRefresh()
+              return { success: true }
+            } catch (error) {
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+              }
+            }
+          },
+        }),
+        registerAction({
           id: 'getSettings',
           async execute(_params: Record<string, unknown>, execContext: ExecutionContext) {
             try {
@@ -272,8 +794,15 @@ function activate(context: ExtensionContext): Disposable {
                 success: true,
                 data: {
                   defaultReminderMinutes: String(settings.defaultReminderMinutes),
+                  defaultReminders: settings.defaultReminders.join(', '),
                   allDayReminderTime: settings.allDayReminderTime ?? '',
                   reminderLocale: settings.reminderLocale ?? 'auto',
+                  digestEnabled: String(settings.digestEnabled),
+                  digestTime: settings.digestTime ?? '',
+                  overdueFollowUpMinutes: String(settings.overdueFollowUpMinutes),
+                  overdueFollowUpLimit: String(settings.overdueFollowUpLimit),
+                  timezone: settings.timezone ?? '',
+                  trashRetentionDays: String(settings.trashRetentionDays),
                 },
               }
             } catch (error) {
@@ -284,7 +813,7 @@ function activate(context: ExtensionContext): Disposable {
             }
           },
         }),
-        actionsApi.register({
+        registerAction({
           id: 'updateSetting',
           async execute(params: Record<string, unknown>, execContext: ExecutionContext) {
             try {
@@ -298,15 +827,35 @@ function activate(context: ExtensionContext): Disposable {
               const update: Record<string, unknown> = {}
               if (key === 'defaultReminderMinutes') {
                 update[key] = value === 'null' ? null : parseInt(value, 10)
+              } else if (key === 'defaultReminders') {
+                update[key] = (normalizeReminderList(value) ?? []).slice(0, MAX_REMINDERS_PER_TODO)
               } else if (key === 'allDayReminderTime') {
                 update[key] = value || null
               } else if (key === 'reminderLocale') {
                 update[key] = value === 'auto' ? null : value
+              } else if (key === 'digestEnabled') {
+                update[key] = value === 'true'
+              } else if (key === 'digestTime') {
+                update[key] = value || null
+              } else if (key === 'overdueFollowUpMinutes') {
+                update[key] = value === 'null' ? null : parseInt(value, 10)
+              } else if (key === 'overdueFollowUpLimit') {
+                update[key] = parseInt(value, 10)
+              } else if (key === 'timezone') {
+                const timezone = value.trim()
+                if (timezone && !isValidTimeZone(timezone)) {
+                  return { success: false, error: `Unknown time zone "${timezone}"` }
+                }
+                update[key] = timezone || null
+              } else if (key === 'trashRetentionDays') {
+                update[key] = value === 'null' ? null : parseInt(value, 10)
               }
 
               await userRepo.updateSettings(update)
               emitSettingsRefresh()
               void scheduleAllTodosForUser(execContext.userId)
+              void scheduleDigest(execContext.userId)
+              void scheduleTrashPurge(execContext.userId)
 
               return { success: true }
             } catch (error) {
@@ -323,38 +872,134 @@ function activate(context: ExtensionContext): Disposable {
   const disposables = [
     ...actionDisposables,
 
-    context.tools!.register(createListProjectsTool(repository)),
-    context.tools!.register(createGetProjectTool(repository)),
-    context.tools!.register(createUpsertProjectTool(repository, (_userId) => emitProjectRefresh())),
-    context.tools!.register(createDeleteProjectTool(repository, (_userId) => emitProjectRefresh())),
-
-    context.tools!.register(createListTodosTool(repository)),
-    context.tools!.register(createGetTodoTool(repository)),
-    context.tools!.register(
-      createUpsertTodoTool(repository, (todo, userId) => {
+    registerTool(createListProjectsTool(repository)),
+    registerTool(createGetProjectTool(repository)),
+    registerTool(createUpsertProjectTool(repository, (_userId) => emitProjectRefresh())),
+    registerTool(
+      createDeleteProjectTool(repository, (userId) => {
+        emitProjectRefresh()
+        void scheduleTrashPurge(userId)
+      })
+    ),
+    registerTool(
+      createArchiveProjectTool(repository, (projectId, userId) => {
+        emitProjectRefresh()
+        emitTodoRefresh()
+        void scheduleProjectTodos(projectId, userId)
+      })
+    ),
+    registerTool(
+      createUnarchiveProjectTool(repository, (projectId, userId) => {
+        emitProjectRefresh()
         emitTodoRefresh()
-        void scheduleTodo(todo, userId)
+        void scheduleProjectTodos(projectId, userId)
       })
     ),
-    context.tools!.register(
+
+    registerTool(createListTodosTool(repository)),
+    registerTool(createGetTodoTool(repository)),
+    registerTool(
+      createUpsertTodoTool(repository, (todo, userId) => handleTodoChanged(todo, userId))
+    ),
+    registerTool(
+      createSnoozeTodoTool(repository, (todo, userId) => handleTodoChanged(todo, userId))
+    ),
+    registerTool(createTodoHistoryTool(repository)),
+    registerTool(
       createDeleteTodoTool(repository, (todoId, userId) => {
         emitTodoRefresh()
         void cancelTodo(todoId, userId)
+        void scheduleTrashPurge(userId)
+      })
+    ),
+    registerTool(createListTrashTool(repository)),
+    registerTool(
+      createRestoreFromTrashTool(repository, (kind, id, userId) => {
+        if (kind === 'todo') {
+          emitTodoRefresh()
+          void scheduleTodoById(id, userId)
+        } else {
+          emitProjectRefresh()
+          emitTodoRefresh()
+          void scheduleProjectTodos(id, userId)
+        }
+        void scheduleTrashPurge(userId)
+      })
+    ),
+    registerTool(
+      createPurgeTrashTool(repository, (userId) => {
+        emitTodoRefresh()
+        emitProjectRefresh()
+        void scheduleTrashPurge(userId)
       })
     ),
 
-    context.tools!.register(createAddCommentTool(repository, (_userId) => emitTodoRefresh())),
-    context.tools!.register(createDeleteCommentTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createAddCommentTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createDeleteCommentTool(repository, (_userId) => emitTodoRefresh())),
 
-    context.tools!.register(createAddSubItemTool(repository, (_userId) => emitTodoRefresh())),
-    context.tools!.register(createDeleteSubItemTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createAddSubItemTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createDeleteSubItemTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createToggleSubItemTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createUpdateSubItemTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createReorderSubItemsTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(
+      createPromoteSubItemTool(repository, (todo, userId) => handleTodoChanged(todo, userId))
+    ),
 
-    context.tools!.register(createListSettingsTool(repository)),
-    context.tools!.register(createGetSettingsTool(repository)),
-    context.tools!.register(
+    registerTool(createSearchTool(repository)),
+    registerTool(createExportIcsTool(repository)),
+    registerTool(
+      createImportIcsTool(repository, (todos, userId) => {
+        for (const todo of todos) handleTodoChanged(todo, userId)
+      })
+    ),
+    registerTool(createExportMarkdownTool(repository)),
+    registerTool(
+      createImportMarkdownTool(repository, (todos, newProjects, userId) => {
+        if (newProjects.length > 0) emitProjectRefresh()
+        for (const todo of todos) handleTodoChanged(todo, userId)
+      })
+    ),
+    registerTool(createExportTodoTxtTool(repository)),
+    registerTool(
+      createImportTodoTxtTool(repository, (todos, newProjects, userId) => {
+        if (newProjects.length > 0) emitProjectRefresh()
+        for (const todo of todos) handleTodoChanged(todo, userId)
+      })
+    ),
+    registerTool(createExportBackupTool(repository)),
+    registerTool(
+      createImportBackupTool(repository, (result, userId) => {
+        emitTodoRefresh()
+        emitProjectRefresh()
+        if (result.mode === 'replace') emitSettingsRefresh()
+        void (async () => {
+          for (const todoId of result.removedTodoIds) await cancelTodo(todoId, userId)
+          await scheduleAllTodosForUser(userId)
+          await scheduleDigest(userId)
+          await scheduleTrashPurge(userId)
+        })()
+      })
+    ),
+
+    registerTool(createAddDependencyTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(
+      createRemoveDependencyTool(repository, (_userId) => emitTodoRefresh())
+    ),
+
+    registerTool(createListTagsTool(repository)),
+    registerTool(createRenameTagTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createMergeTagsTool(repository, (_userId) => emitTodoRefresh())),
+    registerTool(createDeleteTagTool(repository, (_userId) => emitTodoRefresh())),
+
+    registerTool(createListSettingsTool(repository)),
+    registerTool(createGetSettingsTool(repository)),
+    registerTool(
       createUpdateSettingsTool(repository, (_settings, userId) => {
         emitSettingsRefresh()
         void scheduleAllTodosForUser(userId)
+        void scheduleDigest(userId)
+        void scheduleTrashPurge(userId)
       })
     ),
     ...(schedulerDisposable ? [schedulerDisposable] : []),
@@ -366,21 +1011,70 @@ function activate(context: ExtensionContext): Disposable {
       'work_projects_get',
       'work_projects_upsert',
       'work_projects_delete',
+      'work_projects_archive',
+      'work_projects_unarchive',
       'work_todos_list',
       'work_todos_get',
       'work_todos_upsert',
       'work_todos_delete',
+      'work_trash_list',
+      'work_trash_restore',
+      'work_trash_purge',
+      'work_todos_snooze',
+      'work_todos_history',
       'work_comments_add',
       'work_comments_delete',
       'work_subitems_add',
       'work_subitems_delete',
+      'work_subitems_toggle',
+      'work_subitems_update',
+      'work_subitems_reorder',
+      'work_subitems_promote',
+      'work_search',
+      'work_export_ics',
+      'work_import_ics',
+      'work_export_markdown',
+      'work_import_markdown',
+      'work_export_todotxt',
+      'work_import_todotxt',
+      'work_backup_export',
+      'work_backup_import',
+      'work_dependencies_add',
+      'work_dependencies_remove',
+      'work_tags_list',
+      'work_tags_rename',
+      'work_tags_merge',
+      'work_tags_delete',
       'work_settings_list',
       'work_settings_get',
       'work_settings_update',
     ],
-    actions: actionsApi ? ['getGroups', 'getSettings', 'updateSetting'] : [],
+    actions: actionsApi
+      ? [
+          'getGroups',
+          'cycleTodoStatus',
+          'snoozeTodo',
+          'toggleSubItem',
+          'toggleGroup',
+          'deleteComment',
+          'getSettings',
+          'updateSetting',
+        ]
+      : [],
   })
 
+  // Each digest schedules the next one; start the chain again in case the host lost it
+  void repository
+    .listDigestUserIds()
+    .then(async (userIds) => {
+      for (const userId of userIds) await scheduleDigest(userId)
+    })
+    .catch((error) => {
+      context.log.warn('Failed to schedule daily digests', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+
   // Note: Reminder scheduling now happens per-user when todos are created/updated
   // via scheduleTodo() called from the tool callbacks
 
@@ -0,0 +1,193 @@
+import { resolveUtcOffset } from './timezone.js'
+import type { WorkSubItemImport, WorkTodo, WorkTodoInput, WorkTodoStatus } from './types.js'
+
+/** Heading for todos without a project, as in the panel. */
+export const NO_PROJECT_HEADING = 'No Project'
+
+const DUE_LABEL = 'Due'
+const COMMENT_LABEL = 'Comment'
+
+const HEADING_PATTERN = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const CHECKBOX_PATTERN = /^\[([ xX])\](?:\s+(.*))?$/
+const LABEL_PATTERN = /^(due|comment)\s*:\s*(.*)$/i
+const DUE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?$/
+const STRIKE_PATTERN = /^~~(.+)~~$/
+
+export interface MarkdownSection {
+  /** Project name; null for todos without a project. */
+  title: string | null
+  /** Todos with their subitems and comments loaded. */
+  todos: WorkTodo[]
+}
+
+export interface MarkdownExportOptions {
+  /** Include comments as sub-bullets. Defaults to true. */
+  includeComments?: boolean
+}
+
+export interface MarkdownTodoEntry {
+  title: string
+  status: WorkTodoStatus
+  /** Due date from a "Due:" sub-bullet, in the user's time zone. */
+  due: Required<Pick<WorkTodoInput, 'dueAt' | 'date' | 'time' | 'allDay'>> | null
+  subItems: WorkSubItemImport[]
+  comments: string[]
+}
+
+export interface MarkdownChecklistSection {
+  /** Heading the todos were listed under; null before any heading or under "No Project". */
+  title: string | null
+  todos: MarkdownTodoEntry[]
+}
+
+export interface MarkdownParseResult {
+  sections: MarkdownChecklistSection[]
+  /** Lines that were not understood, e.g. an invalid due date. */
+  warnings: string[]
+}
+
+/** Markdown list items are one line, so line breaks in titles and comments become spaces. */
+const singleLine = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+const checkbox = (checked: boolean): string => (checked ? '[x]' : '[ ]')
+
+/**
+ * Builds a Markdown checklist with a heading per section. Completed todos are checked and
+ * cancelled ones checked and struck through; due dates, subitems and comments are nested
+ * below each todo.
+ */
+export const buildMarkdown = (
+  sections: MarkdownSection[],
+  options: MarkdownExportOptions = {}
+): string => {
+  const blocks = sections.map((section) => {
+    const lines = [`# ${singleLine(section.title ?? NO_PROJECT_HEADING)}`]
+    if (section.todos.length > 0) lines.push('')
+    for (const todo of section.todos) {
+      const title = singleLine(todo.title)
+      const closed = todo.status === 'completed' || todo.status === 'cancelled'
+      lines.push(`- ${checkbox(closed)} ${todo.status === 'cancelled' ? `~~${title}~~` : title}`)
+      lines.push(`  - ${DUE_LABEL}: ${todo.allDay ? todo.date : `${todo.date} ${todo.time}`}`)
+      for (const subItem of todo.subItems ?? []) {
+        lines.push(`  - ${checkbox(!!subItem.completedAt)} ${singleLine(subItem.text)}`)
+      }
+      if (options.includeComments === false) continue
+      for (const comment of todo.comments ?? []) {
+        lines.push(`  - ${COMMENT_LABEL}: ${singleLine(comment.text)}`)
+      }
+    }
+    return lines.join('\n')
+  })
+  return `${blocks.join('\n\n')}\n`
+}
+
+const indentWidth = (indent: string): number => indent.replace(/\t/g, '    ').length
+
+/**
+ * Reads a due date (YYYY-MM-DD, optionally with HH:MM) in the given time zone.
+ */
+const parseDue = (value: string, timeZone: string | null): MarkdownTodoEntry['due'] => {
+  const match = value.trim().match(DUE_PATTERN)
+  if (!match) return null
+  const [, year, month, day, hours, minutes] = match
+  const check = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  if (check.getUTCMonth() !== Number(month) - 1 || check.getUTCDate() !== Number(day)) return null
+
+  const date = `${year}-${month}-${day}`
+  if (hours === undefined) {
+    const offset = resolveUtcOffset(date, '00:00', timeZone)
+    return { dueAt: `${date}T00:00:00${offset}`, date, time: '00:00', allDay: true }
+  }
+  if (Number(hours) > 23 || Number(minutes) > 59) return null
+  const time = `${hours}:${minutes}`
+  return {
+    dueAt: `${date}T${time}:00${resolveUtcOffset(date, time, timeZone)}`,
+    date,
+    time,
+    allDay: false,
+  }
+}
+
+/**
+ * Parses a Markdown checklist into todos grouped by heading. Top-level list items become
+ * todos, checked when done; a struck-through checked item is cancelled. Nested checkbox
+ * items become subitems, "Due:" sets the due date, and other nested items are comments.
+ * Headings without items are left out, and repeated headings are merged.
+ */
+export const parseMarkdownChecklist = (
+  text: string,
+  timeZone?: string | null
+): MarkdownParseResult => {
+  const sections: MarkdownChecklistSection[] = []
+  const warnings: string[] = []
+  let section: MarkdownChecklistSection | null = null
+  let current: { indent: number; entry: MarkdownTodoEntry } | null = null
+
+  const openSection = (title: string | null): MarkdownChecklistSection => {
+    const key = title?.toLowerCase() ?? null
+    const existing = sections.find((entry) => (entry.title?.toLowerCase() ?? null) === key)
+    if (existing) return existing
+    const created: MarkdownChecklistSection = { title, todos: [] }
+    sections.push(created)
+    return created
+  }
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      const title = singleLine(heading[1])
+      const noProject = !title || title.toLowerCase() === NO_PROJECT_HEADING.toLowerCase()
+      section = openSection(noProject ? null : title)
+      current = null
+      return
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN)
+    if (!item) return
+    const indent = indentWidth(item[1])
+    const body = item[2].trim()
+    const box = body.match(CHECKBOX_PATTERN)
+
+    if (!current || indent <= current.indent) {
+      const checked = !!box && box[1] !== ' '
+      const content = box ? singleLine(box[2] ?? '') : singleLine(body)
+      const struck = content.match(STRIKE_PATTERN)
+      const title = struck ? singleLine(struck[1]) : content
+      if (!title) {
+        warnings.push(`Line ${index + 1}: item has no title`)
+        current = null
+        return
+      }
+      const entry: MarkdownTodoEntry = {
+        title,
+        status: checked ? (struck ? 'cancelled' : 'completed') : 'not_started',
+        due: null,
+        subItems: [],
+        comments: [],
+      }
+      section ??= openSection(null)
+      section.todos.push(entry)
+      current = { indent, entry }
+      return
+    }
+
+    // Deeper items belong to the current todo; subitems do not nest, so all levels are flattened
+    if (box) {
+      const content = singleLine(box[2] ?? '')
+      if (content) current.entry.subItems.push({ text: content, completed: box[1] !== ' ' })
+      return
+    }
+    const label = body.match(LABEL_PATTERN)
+    if (label?.[1].toLowerCase() === 'due') {
+      const due = parseDue(label[2], timeZone ?? null)
+      if (due) current.entry.due = due
+      else warnings.push(`Line ${index + 1}: unrecognized due date "${label[2].trim()}"`)
+      return
+    }
+    const comment = singleLine(label ? label[2] : body)
+    if (comment) current.entry.comments.push(comment)
+  })
+
+  return { sections: sections.filter((entry) => entry.todos.length > 0), warnings }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { computeNextOccurrence } from './recurrence.js'
+
+describe('computeNextOccurrence', () => {
+  it('returns the occurrence after the due date', () => {
+    expect(
+      computeNextOccurrence('2024-06-03T09:00:00+02:00', { frequency: 'daily', interval: 1 })
+    ).toEqual({
+      dueAt: '2024-06-04T09:00:00+02:00',
+      recurrence: { frequency: 'daily', interval: 1, count: null },
+    })
+  })
+
+  it('skips occurrences due before notBefore', () => {
+    const next = computeNextOccurrence(
+      '2024-06-03T09:00:00+02:00',
+      { frequency: 'weekly', interval: 1 },
+      new Date('2024-06-20T12:00:00Z')
+    )
+
+    expect(next?.dueAt).toBe('2024-06-24T09:00:00+02:00')
+  })
+
+  it('counts skipped occurrences towards the count', () => {
+    const notBefore = new Date('2024-06-05T12:00:00Z')
+    const rule = { frequency: 'daily' as const, interval: 1 }
+
+    expect(
+      computeNextOccurrence('2024-06-03T09:00:00Z', { ...rule, count: 4 }, notBefore)
+    ).toEqual({ dueAt: '2024-06-06T09:00:00Z', recurrence: { ...rule, count: 1 } })
+    expect(computeNextOccurrence('2024-06-03T09:00:00Z', { ...rule, count: 3 }, notBefore)).toBeNull()
+  })
+
+  it('ends when the skipped occurrences pass until', () => {
+    expect(
+      computeNextOccurrence(
+        '2024-06-03T09:00:00Z',
+        { frequency: 'daily', interval: 1, until: '2024-06-10' },
+        new Date('2024-07-01T00:00:00Z')
+      )
+    ).toBeNull()
+  })
+})
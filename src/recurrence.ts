@@ -0,0 +1,345 @@
+import type {
+  WorkRecurrenceFrequency,
+  WorkTodoRecurrence,
+  WorkWeekday,
+} from './types.js'
+
+export const RECURRENCE_FREQUENCIES: WorkRecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+]
+
+export const WEEKDAYS: WorkWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+const WEEKDAY_ALIASES: Record<string, WorkWeekday> = {
+  mo: 'MO',
+  mon: 'MO',
+  monday: 'MO',
+  tu: 'TU',
+  tue: 'TU',
+  tuesday: 'TU',
+  we: 'WE',
+  wed: 'WE',
+  wednesday: 'WE',
+  th: 'TH',
+  thu: 'TH',
+  thursday: 'TH',
+  fr: 'FR',
+  fri: 'FR',
+  friday: 'FR',
+  sa: 'SA',
+  sat: 'SA',
+  saturday: 'SA',
+  su: 'SU',
+  sun: 'SU',
+  sunday: 'SU',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type RecurrenceCheck = { ok: true; recurrence?: WorkTodoRecurrence | null } | { ok: false; error: string }
+
+interface LocalDateTime {
+  year: number
+  month: number
+  day: number
+  time: string
+  offset: string
+}
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0')
+
+const normalizeFrequency = (value: unknown): WorkRecurrenceFrequency | undefined => {
+  if (typeof value !== 'string') return undefined
+  const normalized = value.trim().toLowerCase()
+  return RECURRENCE_FREQUENCIES.find((frequency) => frequency === normalized)
+}
+
+const normalizeWeekday = (value: unknown): WorkWeekday | undefined => {
+  if (typeof value !== 'string') return undefined
+  return WEEKDAY_ALIASES[value.trim().toLowerCase()]
+}
+
+/**
+ * Converts an RRULE UNTIL value (20261231 or 20261231T235959Z) to ISO 8601.
+ */
+const parseRRuleUntil = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  if (!hours) return `${year}-${month}-${day}`
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${utc ? 'Z' : ''}`
+}
+
+const formatRRuleUntil = (value: string): string => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value.replace(/-/g, '')
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value.replace(/[-:]/g, '')
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Parses an RRULE string (with or without the "RRULE:" prefix).
+ * Only FREQ, INTERVAL, BYDAY, UNTIL and COUNT are supported.
+ */
+export const parseRRule = (value: string): RecurrenceCheck => {
+  const body = value.trim().replace(/^RRULE:/i, '')
+  const parts = new Map<string, string>()
+  for (const part of body.split(';')) {
+    if (!part.trim()) continue
+    const [key, raw] = part.split('=')
+    if (!key || raw === undefined) {
+      return { ok: false, error: `Invalid RRULE part "${part}"` }
+    }
+    parts.set(key.trim().toUpperCase(), raw.trim())
+  }
+
+  const recurrence: Record<string, unknown> = {
+    frequency: parts.get('FREQ'),
+    interval: parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : undefined,
+    weekdays: parts.get('BYDAY')?.split(','),
+    count: parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined,
+  }
+
+  const until = parts.get('UNTIL')
+  if (until) {
+    const parsed = parseRRuleUntil(until)
+    if (!parsed) return { ok: false, error: `Invalid RRULE UNTIL "${until}"` }
+    recurrence.until = parsed
+  }
+
+  return validateRecurrence(recurrence)
+}
+
+/**
+ * Formats a recurrence rule as an RFC 5545 RRULE value (without the "RRULE:" prefix).
+ */
+export const formatRRule = (recurrence: WorkTodoRecurrence): string => {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`]
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`)
+  if (recurrence.weekdays?.length) parts.push(`BYDAY=${recurrence.weekdays.join(',')}`)
+  if (recurrence.until) parts.push(`UNTIL=${formatRRuleUntil(recurrence.until)}`)
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`)
+  return parts.join(';')
+}
+
+/**
+ * Validates recurrence input from tools. Accepts a recurrence object, an RRULE string,
+ * or null to clear the rule.
+ */
+export const validateRecurrence = (value: unknown): RecurrenceCheck => {
+  if (value === undefined) return { ok: true, recurrence: undefined }
+  if (value === null || value === '' || value === 'null') return { ok: true, recurrence: null }
+  if (typeof value === 'string') return parseRRule(value)
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, error: 'Recurrence must be an object or an RRULE string' }
+  }
+
+  const input = value as Record<string, unknown>
+  const frequency = normalizeFrequency(input.frequency)
+  if (!frequency) {
+    return {
+      ok: false,
+      error: `Invalid recurrence frequency "${String(input.frequency)}". Allowed: ${RECURRENCE_FREQUENCIES.join(', ')}`,
+    }
+  }
+
+  const interval = input.interval === undefined || input.interval === null ? 1 : Number(input.interval)
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { ok: false, error: 'Recurrence interval must be a positive integer' }
+  }
+
+  let weekdays: WorkWeekday[] | undefined
+  if (input.weekdays !== undefined && input.weekdays !== null) {
+    if (!Array.isArray(input.weekdays)) {
+      return { ok: false, error: 'Recurrence weekdays must be an array' }
+    }
+    const normalized: WorkWeekday[] = []
+    for (const entry of input.weekdays) {
+      const weekday = normalizeWeekday(entry)
+      if (!weekday) {
+        return {
+          ok: false,
+          error: `Invalid recurrence weekday "${String(entry)}". Allowed: ${WEEKDAYS.join(', ')}`,
+        }
+      }
+      if (!normalized.includes(weekday)) normalized.push(weekday)
+    }
+    if (normalized.length > 0) {
+      if (frequency !== 'weekly') {
+        return { ok: false, error: 'Recurrence weekdays are only supported for weekly recurrence' }
+      }
+      weekdays = normalized.sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b))
+    }
+  }
+
+  let until: string | null = null
+  if (typeof input.until === 'string' && input.until.trim()) {
+    until = input.until.trim()
+    if (Number.isNaN(new Date(until).getTime())) {
+      return { ok: false, error: `Invalid recurrence until "${until}"` }
+    }
+  }
+
+  let count: number | null = null
+  if (input.count !== undefined && input.count !== null) {
+    count = Number(input.count)
+    if (!Number.isInteger(count) || count < 1) {
+      return { ok: false, error: 'Recurrence count must be a positive integer' }
+    }
+  }
+
+  if (until && count) {
+    return { ok: false, error: 'Recurrence can end by until or count, not both' }
+  }
+
+  return {
+    ok: true,
+    recurrence: {
+      frequency,
+      interval,
+      ...(weekdays ? { weekdays } : {}),
+      until,
+      count,
+    },
+  }
+}
+
+const parseLocalDateTime = (iso: string): LocalDateTime | null => {
+  const match = iso.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}:\d{2})(?::(\d{2}))?(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/
+  )
+  if (match) {
+    const [, year, month, day, hoursMinutes, seconds, offset] = match
+    return {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      time: hoursMinutes ? `${hoursMinutes}:${seconds ?? '00'}` : '00:00:00',
+      offset: offset ?? '',
+    }
+  }
+
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return null
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    time: date.toISOString().slice(11, 19),
+    offset: 'Z',
+  }
+}
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/** Monday-based weekday index (0 = Monday). */
+const weekdayIndex = (dayNumber: number): number => {
+  return (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7
+}
+
+const toDayNumber = (year: number, month: number, day: number): number => {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS)
+}
+
+const nextWeeklyDay = (dayNumber: number, recurrence: WorkTodoRecurrence): number => {
+  const weekdays = recurrence.weekdays ?? []
+  if (weekdays.length === 0) return dayNumber + 7 * recurrence.interval
+
+  const current = weekdayIndex(dayNumber)
+  const indexes = weekdays.map((weekday) => WEEKDAYS.indexOf(weekday))
+  const laterThisWeek = indexes.find((index) => index > current)
+  if (laterThisWeek !== undefined) return dayNumber + (laterThisWeek - current)
+
+  const weekStart = dayNumber - current
+  return weekStart + 7 * recurrence.interval + indexes[0]
+}
+
+const addMonths = (local: LocalDateTime, months: number): LocalDateTime => {
+  const total = local.year * 12 + (local.month - 1) + months
+  const year = Math.floor(total / 12)
+  const month = (total % 12) + 1
+  return { ...local, year, month, day: Math.min(local.day, daysInMonth(year, month)) }
+}
+
+const isAfterUntil = (next: LocalDateTime, nextIso: string, until: string): boolean => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(until)) {
+    return `${next.year}-${pad(next.month)}-${pad(next.day)}` > until
+  }
+  return new Date(nextIso).getTime() > new Date(until).getTime()
+}
+
+type Occurrence = { dueAt: string; recurrence: WorkTodoRecurrence }
+
+/**
+ * Computes the due date of the occurrence following `dueAt`.
+ * The local wall-clock time and UTC offset of `dueAt` are preserved. Monthly and yearly
+ * rules clamp to the last day of shorter months.
+ * @param notBefore Skip occurrences due before this instant; skipped ones still count
+ *   towards the rule's count
+ * @returns The next due date and the rule to store on it, or null when the series has ended
+ */
+export const computeNextOccurrence = (
+  dueAt: string,
+  recurrence: WorkTodoRecurrence,
+  notBefore?: Date
+): Occurrence | null => {
+  let next = stepOccurrence(dueAt, recurrence)
+  while (next && notBefore && new Date(next.dueAt).getTime() < notBefore.getTime()) {
+    next = stepOccurrence(next.dueAt, next.recurrence)
+  }
+  return next
+}
+
+const stepOccurrence = (dueAt: string, recurrence: WorkTodoRecurrence): Occurrence | null => {
+  if (recurrence.count !== null && recurrence.count !== undefined && recurrence.count <= 1) {
+    return null
+  }
+
+  const local = parseLocalDateTime(dueAt)
+  if (!local) return null
+
+  let next: LocalDateTime
+  switch (recurrence.frequency) {
+    case 'daily':
+    case 'weekly': {
+      const current = toDayNumber(local.year, local.month, local.day)
+      const dayNumber =
+        recurrence.frequency === 'daily'
+          ? current + recurrence.interval
+          : nextWeeklyDay(current, recurrence)
+      const date = new Date(dayNumber * DAY_MS)
+      next = {
+        ...local,
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      }
+      break
+    }
+    case 'monthly':
+      next = addMonths(local, recurrence.interval)
+      break
+    case 'yearly':
+      next = addMonths(local, recurrence.interval * 12)
+      break
+  }
+
+  const nextIso = `${pad(next.year, 4)}-${pad(next.month)}-${pad(next.day)}T${next.time}${next.offset}`
+
+  if (recurrence.until && isAfterUntil(next, nextIso, recurrence.until)) {
+    return null
+  }
+
+  return {
+    dueAt: nextIso,
+    recurrence: {
+      ...recurrence,
+      count: recurrence.count ? recurrence.count - 1 : recurrence.count ?? null,
+    },
+  }
+}
@@ -1,4 +1,5 @@
-import type { WorkSettings, WorkTodo } from './types.js'
+import { addDaysToDate, formatZonedDate, zonedTimeToUtc } from './timezone.js'
+import type { WorkSettings, WorkSnoozeOption, WorkTodo } from './types.js'
 
 export interface SchedulerFirePayload {
   id: string
@@ -8,7 +9,7 @@ export interface SchedulerFirePayload {
   delayMs: number
 }
 
-const resolveLocale = (settings: WorkSettings, userLanguage?: string | null): 'sv' | 'en' => {
+export const resolveLocale = (settings: WorkSettings, userLanguage?: string | null): 'sv' | 'en' => {
   const stored = settings.reminderLocale?.toLowerCase()
   if (stored && stored !== 'auto') {
     if (stored.startsWith('sv')) return 'sv'
@@ -49,38 +50,281 @@ const normalizeAllDayTime = (time: string): string | null => {
   return null
 }
 
+const offsetToMinutes = (offset: string): number => {
+  if (offset === 'Z') return 0
+  const sign = offset.startsWith('-') ? -1 : 1
+  const [hours, minutes] = offset.slice(1).split(':').map(Number)
+  return sign * (hours * 60 + minutes)
+}
+
+/**
+ * Resolves a local date and time to an instant: in the given time zone when known,
+ * otherwise in the UTC offset of the todo's due date.
+ */
+const resolveLocalInstant = (
+  date: string,
+  time: string,
+  dueAt: string,
+  timeZone?: string | null
+): Date => {
+  if (timeZone) {
+    return zonedTimeToUtc(date, time, timeZone) ?? new Date(Number.NaN)
+  }
+  return new Date(`${date}T${time}${extractOffset(dueAt)}`)
+}
+
+const DEFAULT_MORNING_TIME = '09:00:00'
+
+/** Upper bound on reminders per todo; each gets its own scheduler job. */
+export const MAX_REMINDERS_PER_TODO = 5
+
+export const SNOOZE_OPTIONS: WorkSnoozeOption[] = ['10m', '1h', 'tomorrow']
+
+export const normalizeSnoozeOption = (value: unknown): WorkSnoozeOption | undefined => {
+  if (typeof value !== 'string') return undefined
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, '')
+  switch (normalized) {
+    case '10m':
+    case '10min':
+    case '10minutes':
+      return '10m'
+    case '1h':
+    case '60m':
+    case '1hour':
+      return '1h'
+    case 'tomorrow':
+    case 'tomorrowmorning':
+      return 'tomorrow'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Normalizes a list of reminder offsets from tool or UI input: an array of numbers or
+ * numeric strings, or a comma-separated string. Invalid and negative entries are dropped;
+ * the result is deduplicated and ordered from earliest reminder to latest.
+ * @returns undefined when not provided, null to clear, [] for explicitly no reminders
+ */
+export const normalizeReminderList = (value: unknown): number[] | null | undefined => {
+  if (value === undefined) return undefined
+  if (value === null) return null
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [value]
+  const offsets = entries
+    .map((entry) => (typeof entry === 'string' ? entry.trim() : entry))
+    .filter((entry) => entry !== '' && entry !== 'null')
+    .map((entry) => Number(entry))
+    .filter((entry) => Number.isFinite(entry) && entry >= 0)
+  if (offsets.length === 0) {
+    // An explicit empty array means "no reminders"; anything else unusable clears the list
+    return Array.isArray(value) && value.length === 0 ? [] : null
+  }
+  return [...new Set(offsets)].sort((a, b) => b - a)
+}
+
 export const isTodoActive = (todo: WorkTodo): boolean => {
   return todo.status !== 'completed' && todo.status !== 'cancelled'
 }
 
-export const resolveReminderAt = (
+export interface ReminderTime {
+  /** When the reminder fires (ISO 8601). */
+  at: string
+  /** Minutes before the due time (or before the all-day reminder time). */
+  minutes: number
+}
+
+/**
+ * Resolves the reminder offsets (minutes before due) that apply to a todo:
+ * the todo's own list, then its single reminderMinutes, then the settings defaults.
+ */
+export const resolveReminderOffsets = (todo: WorkTodo, settings: WorkSettings): number[] => {
+  if (todo.reminders !== undefined && todo.reminders !== null) return todo.reminders
+  if (todo.reminderMinutes !== undefined && todo.reminderMinutes !== null) {
+    return [todo.reminderMinutes]
+  }
+  if (settings.defaultReminders && settings.defaultReminders.length > 0) {
+    return settings.defaultReminders
+  }
+  if (settings.defaultReminderMinutes !== null && settings.defaultReminderMinutes !== undefined) {
+    return [settings.defaultReminderMinutes]
+  }
+  return []
+}
+
+/**
+ * Resolves all reminder times for a todo, earliest first.
+ * All-day todos are reminded at the all-day reminder time, in the user's time zone when known;
+ * only offsets set on the todo itself are applied to them, relative to that time. A todo
+ * with an empty reminders list gets no reminders.
+ */
+export const resolveReminderTimes = (
   todo: WorkTodo,
-  settings: WorkSettings
-): string | null => {
-  if (!todo.dueAt) return null
+  settings: WorkSettings,
+  timeZone?: string | null
+): ReminderTime[] => {
+  if (!todo.dueAt) return []
 
-  const reminderMinutes =
-    todo.reminderMinutes !== undefined && todo.reminderMinutes !== null
-      ? todo.reminderMinutes
-      : settings.defaultReminderMinutes
+  let base: Date
+  let offsets: number[]
 
   if (todo.allDay) {
-    if (!settings.allDayReminderTime) return null
+    if (!settings.allDayReminderTime) return []
     const datePart = todo.dueAt.slice(0, 10)
-    const offset = extractOffset(todo.dueAt)
     const timePart = normalizeAllDayTime(settings.allDayReminderTime)
-    if (!timePart) return null
-    return `${datePart}T${timePart}${offset}`
+    if (!timePart) return []
+    base = resolveLocalInstant(datePart, timePart, todo.dueAt, timeZone)
+    // An empty list opts out; without a list the todo is reminded at the reminder time
+    offsets = todo.reminders ?? [0]
+  } else {
+    base = new Date(todo.dueAt)
+    offsets = resolveReminderOffsets(todo, settings)
+  }
+
+  if (Number.isNaN(base.getTime())) return []
+
+  return [...new Set(offsets)]
+    .sort((a, b) => b - a)
+    .slice(0, MAX_REMINDERS_PER_TODO)
+    .map((minutes) => ({
+      at: new Date(base.getTime() - minutes * 60 * 1000).toISOString(),
+      minutes,
+    }))
+}
+
+/**
+ * Resolves the earliest reminder time for a todo.
+ */
+export const resolveReminderAt = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  timeZone?: string | null
+): string | null => {
+  return resolveReminderTimes(todo, settings, timeZone)[0]?.at ?? null
+}
+
+/**
+ * Resolves when a snoozed reminder should fire again.
+ * "tomorrow" means the next day at the all-day reminder time (09:00 if unset),
+ * in the user's time zone when known, otherwise in the UTC offset of the todo's due date.
+ */
+export const resolveSnoozeUntil = (
+  option: WorkSnoozeOption,
+  todo: WorkTodo,
+  settings: WorkSettings,
+  now: Date = new Date(),
+  timeZone?: string | null
+): string => {
+  if (option === '10m') return new Date(now.getTime() + 10 * 60 * 1000).toISOString()
+  if (option === '1h') return new Date(now.getTime() + 60 * 60 * 1000).toISOString()
+
+  const morning =
+    (settings.allDayReminderTime && normalizeAllDayTime(settings.allDayReminderTime)) ||
+    DEFAULT_MORNING_TIME
+
+  if (timeZone) {
+    const tomorrow = addDaysToDate(formatZonedDate(now, timeZone), 1)
+    const instant = zonedTimeToUtc(tomorrow, morning, timeZone)
+    if (instant) return instant.toISOString()
   }
 
-  if (reminderMinutes === null || reminderMinutes === undefined) {
+  const offset = extractOffset(todo.dueAt)
+  const localNow = new Date(now.getTime() + offsetToMinutes(offset) * 60 * 1000)
+  localNow.setUTCDate(localNow.getUTCDate() + 1)
+  const datePart = localNow.toISOString().slice(0, 10)
+  return `${datePart}T${morning}${offset}`
+}
+
+/**
+ * Resolves the reminders to schedule for a todo. A pending snooze is included first so that
+ * rescheduling (e.g. after settings change) keeps it; while snoozed, reminders that have
+ * already passed are dropped so they do not fire again.
+ * Times are returned earliest first.
+ */
+export const resolveReminderSchedule = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  now: Date = new Date(),
+  timeZone?: string | null
+): ReminderTime[] => {
+  const times = resolveReminderTimes(todo, settings, timeZone)
+  if (todo.snoozedUntil) {
+    const snoozedUntil = new Date(todo.snoozedUntil)
+    if (!Number.isNaN(snoozedUntil.getTime()) && snoozedUntil.getTime() > now.getTime()) {
+      const upcoming = times.filter((time) => new Date(time.at).getTime() > now.getTime())
+      return [{ at: todo.snoozedUntil, minutes: 0 }, ...upcoming]
+        .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+        .slice(0, MAX_REMINDERS_PER_TODO)
+    }
+  }
+  return times
+}
+
+/**
+ * Resolves when a todo became overdue and how far apart its follow-ups are.
+ * All-day todos become overdue when their due day ends.
+ */
+const resolveOverdueSchedule = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  timeZone?: string | null
+): { overdueAt: number; interval: number; sent: number } | null => {
+  if (!todo.dueAt || !isTodoActive(todo)) return null
+  if (settings.overdueFollowUpMinutes === null || settings.overdueFollowUpMinutes === undefined) {
     return null
   }
 
-  const dueDate = new Date(todo.dueAt)
-  if (Number.isNaN(dueDate.getTime())) return null
-  const reminderAt = new Date(dueDate.getTime() - reminderMinutes * 60 * 1000)
-  return reminderAt.toISOString()
+  const sent = todo.overdueFollowUps ?? 0
+  if (sent >= settings.overdueFollowUpLimit) return null
+
+  const overdueAt = todo.allDay
+    ? resolveLocalInstant(addDaysToDate(todo.dueAt.slice(0, 10), 1), '00:00:00', todo.dueAt, timeZone)
+    : new Date(todo.dueAt)
+  if (Number.isNaN(overdueAt.getTime())) return null
+
+  const interval = Math.max(settings.overdueFollowUpMinutes, 1) * 60 * 1000
+  return { overdueAt: overdueAt.getTime(), interval, sent }
+}
+
+/**
+ * Resolves when the next overdue follow-up for a todo should be sent. Follow-up n is due
+ * n × overdueFollowUpMinutes after the todo became overdue. Slots that already passed, e.g.
+ * while follow-ups were off, are skipped, so a long-overdue todo gets one follow-up per
+ * interval from now on instead of all missed ones at once.
+ * @returns ISO 8601 timestamp after now, or null when disabled or the cap has been reached
+ */
+export const resolveOverdueFollowUpAt = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  timeZone?: string | null,
+  now: Date = new Date()
+): string | null => {
+  const schedule = resolveOverdueSchedule(todo, settings, timeZone)
+  if (!schedule) return null
+
+  const { overdueAt, interval, sent } = schedule
+  const passed = Math.floor((now.getTime() - overdueAt) / interval)
+  const slot = Math.max(sent + 1, passed + 1)
+  return new Date(overdueAt + slot * interval).toISOString()
+}
+
+/**
+ * Whether an overdue follow-up is due now: a follow-up slot after the last one sent has
+ * passed and the cap has not been reached.
+ */
+export const isOverdueFollowUpDue = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  timeZone?: string | null,
+  now: Date = new Date()
+): boolean => {
+  const schedule = resolveOverdueSchedule(todo, settings, timeZone)
+  if (!schedule) return false
+  const { overdueAt, interval, sent } = schedule
+  return Math.floor((now.getTime() - overdueAt) / interval) >= sent + 1
 }
 
 export interface InstructionContext {
@@ -98,6 +342,11 @@ export const buildInstructionMessage = (
   const delayMinutes = formatDelayMinutes(firePayload.delayMs)
   const todoJson = JSON.stringify(todo)
   const name = context?.userName?.trim()
+  const snoozed =
+    !!todo.snoozedUntil &&
+    new Date(todo.snoozedUntil).getTime() === new Date(firePayload.scheduledFor).getTime()
+  const advanceMinutes = Number(firePayload.payload?.reminderMinutes ?? 0)
+  const advance = !snoozed && !todo.allDay && advanceMinutes > 0 ? advanceMinutes : null
 
   if (locale === 'sv') {
     return [
@@ -109,6 +358,12 @@ export const buildInstructionMessage = (
         ? `Observera: Påminnelsen är försenad med ${delayMinutes} minuter ` +
           `(schemalagd: ${firePayload.scheduledFor}, utlöst: ${firePayload.firedAt}).`
         : null,
+      advance
+        ? `Detta är en förhandspåminnelse: posten infaller ${todo.dueAt} (om ${advance} minuter).`
+        : null,
+      snoozed
+        ? `Påminnelsen har snoozats av användaren; posten infaller ${todo.dueAt}.`
+        : null,
       `Todo-data: ${todoJson}`,
     ]
       .filter(Boolean)
@@ -123,8 +378,45 @@ export const buildInstructionMessage = (
       ? `Note: This reminder is delayed by ${delayMinutes} minutes ` +
         `(scheduled: ${firePayload.scheduledFor}, fired: ${firePayload.firedAt}).`
       : null,
+    advance
+      ? `This is an advance reminder: the todo is due ${todo.dueAt} (in ${advance} minutes).`
+      : null,
+    snoozed ? `This reminder was snoozed by the user; the todo is due ${todo.dueAt}.` : null,
     `Todo payload: ${todoJson}`,
   ]
     .filter(Boolean)
     .join('\n')
 }
+
+export const buildOverdueMessage = (
+  todo: WorkTodo,
+  settings: WorkSettings,
+  context?: InstructionContext
+): string => {
+  const locale = resolveLocale(settings, context?.userLanguage)
+  const todoJson = JSON.stringify(todo)
+  const name = context?.userName?.trim()
+  const followUp = todo.overdueFollowUps ?? 1
+  const limit = settings.overdueFollowUpLimit
+
+  if (locale === 'sv') {
+    return [
+      '[Automatiskt meddelande ang. försenad TODO]',
+      `Att-göra-posten (id: ${todo.id}) skulle vara klar ${todo.dueAt} men är fortfarande inte avslutad. ` +
+        `Berätta${name ? ` för ${name}` : ' för användaren'} att '${todo.title}' är försenad och fråga om ` +
+        'posten ska flyttas till en ny tidpunkt, markeras som klar eller avbrytas. ' +
+        'Använd work_todos_upsert för att genomföra svaret.',
+      `Detta är uppföljning ${followUp} av högst ${limit}.`,
+      `Todo-data: ${todoJson}`,
+    ].join('\n')
+  }
+
+  return [
+    '[Automatic overdue TODO follow-up]',
+    `The todo (id: ${todo.id}) was due ${todo.dueAt} and is still not done. ` +
+      `Tell${name ? ` ${name}` : ' the user'} that '${todo.title}' is overdue and ask whether to ` +
+      'reschedule it, mark it completed or cancel it. Use work_todos_upsert to apply the answer.',
+    `This is follow-up ${followUp} of at most ${limit}.`,
+    `Todo payload: ${todoJson}`,
+  ].join('\n')
+}
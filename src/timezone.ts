@@ -0,0 +1,145 @@
+export interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0')
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns the wall-clock date and time of an instant in a time zone.
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const values: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') values[part.type] = Number(part.value)
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  }
+}
+
+/**
+ * Formats an instant as a local date (YYYY-MM-DD) in a time zone.
+ */
+export const formatZonedDate = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone)
+  return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`
+}
+
+/**
+ * Formats an instant as a local time (HH:MM) in a time zone.
+ */
+export const formatZonedTime = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone)
+  return `${pad(parts.hour)}:${pad(parts.minute)}`
+}
+
+/**
+ * Returns the UTC offset of a time zone at an instant, in minutes.
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  )
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+/**
+ * Converts a local date and time in a time zone to an instant.
+ * Times that do not exist (DST gaps) resolve to the instant just after the gap.
+ * @param date Local date (YYYY-MM-DD)
+ * @param time Local time (HH:MM or HH:MM:SS)
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date | null => {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const timeMatch = time.match(/^(\d{2}):(\d{2})(?::(\d{2}))?$/)
+  if (!dateMatch || !timeMatch) return null
+
+  const wallClock = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2]),
+    Number(timeMatch[3] ?? 0)
+  )
+
+  // Two passes settle the offset on the correct side of a DST transition
+  let instant = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000
+  instant = wallClock - getTimeZoneOffsetMinutes(new Date(instant), timeZone) * 60000
+  return new Date(instant)
+}
+
+const formatUtcOffset = (minutes: number): string => {
+  if (minutes === 0) return 'Z'
+  const sign = minutes < 0 ? '-' : '+'
+  const absolute = Math.abs(minutes)
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0')
+  return `${sign}${hours}:${String(absolute % 60).padStart(2, '0')}`
+}
+
+/**
+ * Returns the UTC offset of a local date and time in a time zone, as Z or ±HH:MM.
+ */
+export const resolveUtcOffset = (date: string, time: string, timeZone: string | null): string => {
+  if (!timeZone) return 'Z'
+  const instant = zonedTimeToUtc(date, time, timeZone)
+  return instant ? formatUtcOffset(getTimeZoneOffsetMinutes(instant, timeZone)) : 'Z'
+}
+
+/**
+ * Adds days to a local date (YYYY-MM-DD).
+ */
+export const addDaysToDate = (date: string, days: number): string => {
+  const value = new Date(`${date}T00:00:00Z`)
+  if (Number.isNaN(value.getTime())) return date
+  value.setUTCDate(value.getUTCDate() + days)
+  return value.toISOString().slice(0, 10)
+}
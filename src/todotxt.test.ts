@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { buildTodoTxt, parseTodoTxt } from './todotxt.js'
+import type { WorkTodo, WorkTodoPriority, WorkTodoStatus } from './types.js'
+
+const todo = (
+  title: string,
+  status: WorkTodoStatus = 'not_started',
+  priority: WorkTodoPriority = 'none'
+): WorkTodo => ({
+  id: 'todo-1',
+  projectId: 'proj-1',
+  title,
+  icon: 'task-01',
+  status,
+  priority,
+  dueAt: '2024-06-01T09:30:00Z',
+  date: '2024-06-01',
+  time: '09:30',
+  allDay: false,
+  tags: ['Follow up'],
+  createdAt: '2024-05-01T08:00:00Z',
+  updatedAt: '2024-05-02T08:00:00Z',
+})
+
+const projectNames = new Map([['proj-1', 'Work stuff']])
+
+describe('todo.txt round trip', () => {
+  const titles = [
+    'Email @anna about the offer',
+    'Give +1 to the proposal',
+    'Read +docs and +api',
+    'Move due:friday to next week',
+    'Check time:12:00 slot',
+    'Update status:done field',
+    'Ask for pri:A review',
+    'Look up id:1234 in the tracker',
+    'x marks the spot',
+    '(A) is the top grade',
+    '2024-05-01 release notes',
+    'Keep \\escaped and \\ words',
+  ]
+  const states: [WorkTodoStatus, WorkTodoPriority][] = [
+    ['not_started', 'none'],
+    ['not_started', 'high'],
+    ['in_progress', 'low'],
+    ['completed', 'urgent'],
+    ['cancelled', 'none'],
+  ]
+
+  it.each(states)('keeps titles with marker words (%s, %s)', (status, priority) => {
+    for (const title of titles) {
+      const content = buildTodoTxt([todo(title, status, priority)], { projectNames })
+      const { entries, warnings } = parseTodoTxt(content)
+
+      expect(warnings).toEqual([])
+      expect(entries).toHaveLength(1)
+      expect(entries[0]).toMatchObject({
+        id: 'todo-1',
+        title,
+        status,
+        priority,
+        project: 'Work_stuff',
+        contexts: ['Follow_up'],
+        due: { date: '2024-06-01', time: '09:30', allDay: false },
+      })
+      expect(buildTodoTxt([todo(entries[0].title, status, priority)], { projectNames })).toBe(
+        content
+      )
+    }
+  })
+
+  it('leaves ordinary titles unescaped', () => {
+    const content = buildTodoTxt([todo('Call x about (A) on 2024-05-01')], { projectNames })
+
+    expect(content).toContain(' Call x about (A) on 2024-05-01 +Work_stuff ')
+  })
+})
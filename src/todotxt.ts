@@ -0,0 +1,236 @@
+import { formatZonedDate, resolveUtcOffset } from './timezone.js'
+import type { WorkTodo, WorkTodoInput, WorkTodoPriority, WorkTodoStatus } from './types.js'
+
+/** todo.txt priorities run from (A) upwards; letters after D import as low. */
+const PRIORITY_LETTER: Record<Exclude<WorkTodoPriority, 'none'>, string> = {
+  urgent: 'A',
+  high: 'B',
+  medium: 'C',
+  low: 'D',
+}
+
+const LETTER_PRIORITY: Record<string, WorkTodoPriority> = {
+  A: 'urgent',
+  B: 'high',
+  C: 'medium',
+  D: 'low',
+}
+
+const PRIORITY_PATTERN = /^\(([A-Z])\)$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+/** Only these keys are read; other key:value words stay part of the title. */
+const KEY_VALUE_PATTERN = /^(due|time|status|pri|id):(\S+)$/i
+
+/** Marks a title word the parser would otherwise read as a marker; removed on import. */
+const ESCAPE = '\\'
+
+const STATUS_KEYS: string[] = ['not_started', 'in_progress', 'completed', 'cancelled']
+
+export interface TodoTxtExportOptions {
+  /** The user's time zone, for creation and completion dates. */
+  timeZone?: string | null
+  /** Project names by ID, written as +project. */
+  projectNames?: Map<string, string>
+}
+
+export interface TodoTxtEntry {
+  /** Line number in the file, starting at 1. */
+  line: number
+  /** Todo ID from an id: key written by the export. */
+  id: string | null
+  title: string
+  status: WorkTodoStatus
+  priority: WorkTodoPriority
+  /** The first +project, with underscores still in place. */
+  project: string | null
+  /** @contexts, with underscores still in place. */
+  contexts: string[]
+  /** Due date from due: (and time:), in the user's time zone. */
+  due: Required<Pick<WorkTodoInput, 'dueAt' | 'date' | 'time' | 'allDay'>> | null
+}
+
+export interface TodoTxtParseResult {
+  entries: TodoTxtEntry[]
+  /** Lines or values that were not understood. */
+  warnings: string[]
+}
+
+/**
+ * Turns a project or tag name into a single todo.txt word; spaces become underscores.
+ */
+export const toTodoTxtWord = (name: string): string => name.trim().replace(/\s+/g, '_')
+
+/**
+ * Comparison key for a +project or @context word and a project or tag name.
+ */
+export const todoTxtKey = (name: string): string => toTodoTxtWord(name).toLowerCase()
+
+/**
+ * Escapes title words that would be read back as a marker: +project, @context and known
+ * keys anywhere, and "x", a priority or a date at the start. Words that already start with
+ * the escape character are escaped too.
+ */
+const escapeTitle = (title: string): string =>
+  title
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) => {
+      const marker =
+        word.startsWith(ESCAPE) ||
+        (word.length > 1 && (word.startsWith('+') || word.startsWith('@'))) ||
+        KEY_VALUE_PATTERN.test(word) ||
+        (index === 0 && (word === 'x' || PRIORITY_PATTERN.test(word) || DATE_PATTERN.test(word)))
+      return marker ? `${ESCAPE}${word}` : word
+    })
+    .join(' ')
+
+const localDate = (value: string, timeZone: string | null | undefined): string => {
+  const instant = new Date(value)
+  if (Number.isNaN(instant.getTime())) return value.slice(0, 10)
+  return timeZone ? formatZonedDate(instant, timeZone) : instant.toISOString().slice(0, 10)
+}
+
+const isValidDate = (value: string): boolean => {
+  const match = value.match(DATE_PATTERN)
+  if (!match) return false
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  return date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3])
+}
+
+/**
+ * Formats one todo as a todo.txt line. Statuses todo.txt has no marker for are written as
+ * status:, the priority of completed todos as pri:, and the todo ID as id: so that
+ * importing the file again updates the same todos.
+ */
+const formatLine = (todo: WorkTodo, options: TodoTxtExportOptions): string => {
+  const closed = todo.status === 'completed' || todo.status === 'cancelled'
+  const priority = todo.priority === 'none' ? null : PRIORITY_LETTER[todo.priority]
+  const parts: string[] = []
+
+  if (closed) parts.push('x', localDate(todo.updatedAt, options.timeZone))
+  else if (priority) parts.push(`(${priority})`)
+  parts.push(localDate(todo.createdAt, options.timeZone), escapeTitle(todo.title))
+
+  const projectName = todo.projectId ? options.projectNames?.get(todo.projectId) : undefined
+  if (projectName) parts.push(`+${toTodoTxtWord(projectName)}`)
+  for (const tag of todo.tags ?? []) parts.push(`@${toTodoTxtWord(tag)}`)
+  parts.push(`due:${todo.date}`)
+  if (!todo.allDay) parts.push(`time:${todo.time}`)
+  if (closed && priority) parts.push(`pri:${priority}`)
+  if (todo.status === 'in_progress' || todo.status === 'cancelled') {
+    parts.push(`status:${todo.status}`)
+  }
+  parts.push(`id:${todo.id}`)
+  return parts.join(' ')
+}
+
+export const buildTodoTxt = (todos: WorkTodo[], options: TodoTxtExportOptions = {}): string =>
+  todos.map((todo) => `${formatLine(todo, options)}\n`).join('')
+
+/**
+ * Parses todo.txt lines. A leading "x" completes the todo (status:cancelled cancels it
+ * instead), "(A)" to "(D)" set the priority, the first +project names the project and
+ * @contexts are collected. due:, time:, pri:, status: and id: are read; creation and
+ * completion dates are skipped. A word starting with a backslash is a title word, without
+ * the backslash.
+ */
+export const parseTodoTxt = (text: string, timeZone?: string | null): TodoTxtParseResult => {
+  const entries: TodoTxtEntry[] = []
+  const warnings: string[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const words = raw.trim().split(/\s+/).filter(Boolean)
+    if (words.length === 0) return
+
+    const completed = words[0] === 'x'
+    if (completed) words.shift()
+    let priority: WorkTodoPriority = 'none'
+    const priorityMatch = words[0]?.match(PRIORITY_PATTERN)
+    if (priorityMatch) {
+      priority = LETTER_PRIORITY[priorityMatch[1]] ?? 'low'
+      words.shift()
+    }
+    // Completion and creation dates
+    for (let count = 0; count < 2 && words[0] && DATE_PATTERN.test(words[0]); count++) {
+      words.shift()
+    }
+
+    const titleWords: string[] = []
+    const contexts: string[] = []
+    let project: string | null = null
+    let id: string | null = null
+    let dueDate: string | null = null
+    let dueTime: string | null = null
+    let statusKey: string | null = null
+
+    for (const word of words) {
+      if (word.startsWith(ESCAPE)) {
+        titleWords.push(word.slice(ESCAPE.length))
+        continue
+      }
+      if (word.length > 1 && word.startsWith('+') && project === null) {
+        project = word.slice(1)
+        continue
+      }
+      if (word.length > 1 && word.startsWith('@')) {
+        contexts.push(word.slice(1))
+        continue
+      }
+      const keyValue = word.match(KEY_VALUE_PATTERN)
+      if (!keyValue) {
+        titleWords.push(word)
+        continue
+      }
+      const value = keyValue[2]
+      switch (keyValue[1].toLowerCase()) {
+        case 'due':
+          if (isValidDate(value)) dueDate = value
+          else warnings.push(`Line ${line}: unrecognized due date "${value}"`)
+          break
+        case 'time':
+          if (TIME_PATTERN.test(value)) dueTime = value
+          else warnings.push(`Line ${line}: unrecognized time "${value}"`)
+          break
+        case 'pri':
+          if (/^[A-Z]$/i.test(value)) priority = LETTER_PRIORITY[value.toUpperCase()] ?? 'low'
+          else warnings.push(`Line ${line}: unrecognized priority "${value}"`)
+          break
+        case 'status':
+          if (STATUS_KEYS.includes(value.toLowerCase())) statusKey = value.toLowerCase()
+          else warnings.push(`Line ${line}: unrecognized status "${value}"`)
+          break
+        case 'id':
+          id = value
+          break
+      }
+    }
+
+    const title = titleWords.join(' ')
+    if (!title) {
+      warnings.push(`Line ${line}: task has no description`)
+      return
+    }
+    if (dueTime && !dueDate) warnings.push(`Line ${line}: time: without due: is ignored`)
+
+    let status: WorkTodoStatus
+    if (completed) status = statusKey === 'cancelled' ? 'cancelled' : 'completed'
+    else status = statusKey === 'in_progress' ? 'in_progress' : 'not_started'
+
+    let due: TodoTxtEntry['due'] = null
+    if (dueDate) {
+      const time = dueTime ?? '00:00'
+      due = {
+        dueAt: `${dueDate}T${time}:00${resolveUtcOffset(dueDate, time, timeZone ?? null)}`,
+        date: dueDate,
+        time,
+        allDay: !dueTime,
+      }
+    }
+
+    entries.push({ line, id, title, status, priority, project, contexts, due })
+  })
+
+  return { entries, warnings }
+}
@@ -0,0 +1,98 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import { validateBackup } from '../backup.js'
+import type { WorkRepository } from '../db/repository.js'
+import type { WorkBackupImportResult, WorkBackupMode } from '../types.js'
+
+interface ImportBackupParams {
+  backup: unknown
+  mode?: WorkBackupMode
+}
+
+const MODE_OPTIONS: WorkBackupMode[] = ['merge', 'replace']
+
+export function createExportBackupTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_backup_export',
+    name: 'Export Backup',
+    description:
+      'Export everything in Work Manager as a versioned JSON backup: projects (archived included), todos with tags and blockers, subitems, comments, collapsed groups and settings. Items in the trash and the history are not included.',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+    async execute(_params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const backup = await repository.withUser(execContext.userId).exportBackup()
+
+        return {
+          success: true,
+          data: {
+            projects: backup.projects.length,
+            todos: backup.todos.length,
+            filename: `work-backup-${backup.exportedAt.slice(0, 10)}.json`,
+            mimeType: 'application/json',
+            content: JSON.stringify(backup, null, 2),
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createImportBackupTool(
+  repository: WorkRepository,
+  onImport?: (result: WorkBackupImportResult, userId: string) => void
+): Tool {
+  return {
+    id: 'work_backup_import',
+    name: 'Import Backup',
+    description:
+      'Restore a JSON backup from work_backup_export. "merge" (default) adds its projects and todos next to the existing ones; "replace" deletes all projects, todos (trash included) and tags first and also restores the settings. Records whose ID is already taken get a new ID. Reminders are scheduled for the imported todos.',
+    parameters: {
+      type: 'object',
+      properties: {
+        backup: {
+          type: ['object', 'string'],
+          description: 'The backup document, or its JSON text.',
+        },
+        mode: {
+          type: 'string',
+          enum: MODE_OPTIONS,
+          description: 'merge (default) or replace.',
+        },
+      },
+      required: ['backup'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const { backup, mode = 'merge' } = params as unknown as ImportBackupParams
+        if (!MODE_OPTIONS.includes(mode)) {
+          return {
+            success: false,
+            error: `Invalid mode "${String(mode)}". Allowed: ${MODE_OPTIONS.join(', ')}`,
+          }
+        }
+        const check = validateBackup(backup)
+        if (!check.ok) return { success: false, error: check.error }
+
+        const result = await repository
+          .withUser(execContext.userId)
+          .importBackup(check.backup, mode)
+        onImport?.(result, execContext.userId)
+
+        const { removedTodoIds, ...summary } = result
+        return { success: true, data: { ...summary, removedTodos: removedTodoIds.length } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
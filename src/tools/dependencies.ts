@@ -0,0 +1,80 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+
+interface DependencyParams {
+  todoId: string
+  blockedById: string
+}
+
+export function createAddDependencyTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_dependencies_add',
+    name: 'Add Dependency',
+    description: 'Mark a todo as blocked by another todo that must be finished first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string', description: 'The todo that has to wait.' },
+        blockedById: { type: 'string', description: 'The todo that must be finished first.' },
+      },
+      required: ['todoId', 'blockedById'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, blockedById } = params as unknown as DependencyParams
+        if (!todoId || !blockedById) {
+          return { success: false, error: 'todoId and blockedById are required' }
+        }
+        await repo.addDependency(todoId, blockedById)
+        onChange?.(execContext.userId)
+        return { success: true, data: await repo.getTodo(todoId) }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createRemoveDependencyTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_dependencies_remove',
+    name: 'Remove Dependency',
+    description: 'Remove a blocked-by relationship between two todos.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        blockedById: { type: 'string' },
+      },
+      required: ['todoId', 'blockedById'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, blockedById } = params as unknown as DependencyParams
+        if (!todoId || !blockedById) {
+          return { success: false, error: 'todoId and blockedById are required' }
+        }
+        const removed = await repo.removeDependency(todoId, blockedById)
+        if (!removed) return { success: false, error: 'Dependency not found' }
+        onChange?.(execContext.userId)
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -0,0 +1,109 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import type { ListActivityOptions, WorkActivityAction } from '../types.js'
+
+interface TodoHistoryParams {
+  todoId?: string
+  projectId?: string
+  actions?: WorkActivityAction[]
+  since?: string
+  limit?: number
+  cursor?: string
+}
+
+const ACTION_OPTIONS: WorkActivityAction[] = [
+  'created',
+  'updated',
+  'status_changed',
+  'deleted',
+  'restored',
+  'purged',
+  'archived',
+  'unarchived',
+  'comment_added',
+  'comment_deleted',
+  'subitem_added',
+  'subitem_updated',
+  'subitem_deleted',
+  'subitems_reordered',
+]
+
+export function createTodoHistoryTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_todos_history',
+    name: 'Todo History',
+    description:
+      'Show the activity log, newest first: creates, field changes (from → to), status transitions, comment and subitem changes, deletes and restores, with when they happened and whether a tool, the panel or a reminder made them. Give todoId for one todo, projectId for a project, or neither for all activity.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        projectId: { type: 'string' },
+        actions: {
+          type: 'array',
+          description: 'Only these kinds of activity, e.g. status_changed.',
+          items: { type: 'string', enum: ACTION_OPTIONS },
+        },
+        since: {
+          type: 'string',
+          description: 'Only activity at or after this instant (ISO 8601).',
+        },
+        limit: { type: 'number' },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page; continues after it with the same filters.',
+        },
+      },
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, projectId, actions, since, limit, cursor } =
+          params as unknown as TodoHistoryParams
+        if (todoId && projectId) {
+          return { success: false, error: 'Give either todoId or projectId, not both' }
+        }
+        if (actions !== undefined) {
+          const invalid = Array.isArray(actions)
+            ? actions.find((action) => !ACTION_OPTIONS.includes(action))
+            : actions
+          if (invalid !== undefined) {
+            return {
+              success: false,
+              error: `Invalid action "${String(invalid)}". Allowed: ${ACTION_OPTIONS.join(', ')}`,
+            }
+          }
+        }
+        if (since !== undefined && (typeof since !== 'string' || Number.isNaN(Date.parse(since)))) {
+          return { success: false, error: 'since must be an ISO 8601 date or date-time' }
+        }
+
+        const options: ListActivityOptions = { actions, since, limit, cursor }
+        if (todoId) {
+          options.entityType = 'todo'
+          options.entityId = todoId
+        } else if (projectId) {
+          options.entityType = 'project'
+          options.entityId = projectId
+        }
+
+        const page = await repo.listActivity(options)
+        return {
+          success: true,
+          data: {
+            count: page.items.length,
+            total: page.total,
+            hasMore: page.hasMore,
+            nextCursor: page.nextCursor,
+            activity: page.items,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
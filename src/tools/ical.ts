@@ -0,0 +1,394 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import { buildICalendar, parseICalendar, uidToTodoId, type ICalendarEntry } from '../ical.js'
+import { resolveReminderTimes } from '../reminders.js'
+import type {
+  ListTodosOptions,
+  WorkFieldChange,
+  WorkSettings,
+  WorkTodo,
+  WorkTodoImport,
+  WorkTodoInput,
+  WorkTodoStatus,
+} from '../types.js'
+
+interface ExportIcsParams {
+  projectId?: string
+  statuses?: WorkTodoStatus[]
+  dueAfter?: string
+  dueBefore?: string
+  timedAsEvents?: boolean
+}
+
+interface ImportIcsParams {
+  content: string
+  projectId?: string
+  dryRun?: boolean
+}
+
+interface ImportIcsItem {
+  action: 'create' | 'update'
+  uid: string
+  id?: string
+  title: string
+  dueAt: string
+  changes?: WorkFieldChange[]
+}
+
+const STATUS_OPTIONS: WorkTodoStatus[] = ['not_started', 'in_progress', 'completed', 'cancelled']
+
+const PAGE_SIZE = 200
+
+/** Icon for todos created from calendar entries. */
+const IMPORTED_TODO_ICON = 'calendar-03'
+
+const isValidDateInput = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value.trim()).getTime())
+
+export function createExportIcsTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_export_ics',
+    name: 'Export Calendar',
+    description:
+      'Export todos as an iCalendar (.ics) file for calendar apps. Timed todos become events and all-day todos become tasks, with alarms for their reminders. Each todo keeps the same UID across exports, so importing again updates entries instead of duplicating them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string' },
+        statuses: {
+          type: 'array',
+          description: 'Only todos with any of these statuses; all by default.',
+          items: { type: 'string', enum: STATUS_OPTIONS },
+        },
+        dueAfter: {
+          type: 'string',
+          description: 'Due at or after this ISO 8601 date/time (inclusive).',
+        },
+        dueBefore: {
+          type: 'string',
+          description: 'Due before this ISO 8601 date/time (exclusive).',
+        },
+        timedAsEvents: {
+          type: 'boolean',
+          description: 'Set to false to export timed todos as tasks (VTODO) too. Defaults to true.',
+        },
+      },
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { projectId, statuses, dueAfter, dueBefore, timedAsEvents } =
+          params as ExportIcsParams
+
+        if (statuses !== undefined) {
+          const invalid = Array.isArray(statuses)
+            ? statuses.find((status) => !STATUS_OPTIONS.includes(status))
+            : statuses
+          if (invalid !== undefined) {
+            return {
+              success: false,
+              error: `Invalid todo status "${String(invalid)}". Allowed: ${STATUS_OPTIONS.join(', ')}`,
+            }
+          }
+        }
+        for (const [key, value] of Object.entries({ dueAfter, dueBefore })) {
+          if (value !== undefined && !isValidDateInput(value)) {
+            return { success: false, error: `${key} must be an ISO 8601 date or date-time` }
+          }
+        }
+        if (timedAsEvents !== undefined && typeof timedAsEvents !== 'boolean') {
+          return { success: false, error: 'timedAsEvents must be true or false' }
+        }
+
+        const project = projectId ? await repo.getProject(projectId) : null
+        if (projectId && !project) return { success: false, error: 'Project not found' }
+
+        const filters: ListTodosOptions = {
+          projectId,
+          statuses: statuses?.length ? statuses : undefined,
+          dueAfter: dueAfter?.trim(),
+          dueBefore: dueBefore?.trim(),
+        }
+        const todos: WorkTodo[] = []
+        let cursor: string | undefined
+        do {
+          const page = await repo.listTodos({ ...filters, limit: PAGE_SIZE, cursor })
+          todos.push(...page.items)
+          cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        const projectNames = new Map<string, string>()
+        do {
+          const page = await repo.listProjects({ includeArchived: true, limit: PAGE_SIZE, cursor })
+          for (const entry of page.items) projectNames.set(entry.id, entry.name)
+          cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        const content = buildICalendar(todos, {
+          settings: await repo.getSettings(),
+          timeZone: await repo.getTimeZone(),
+          projectNames,
+          timedAsEvents,
+          calendarName: project ? project.name : 'Work Manager',
+        })
+
+        return {
+          success: true,
+          data: {
+            count: todos.length,
+            filename: 'work-todos.ics',
+            mimeType: 'text/calendar',
+            content,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+const sameInstant = (a: string, b: string): boolean =>
+  new Date(a).getTime() === new Date(b).getTime()
+
+const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map((tag) => tag.trim().toLowerCase()))].sort()
+
+/**
+ * Whether an entry's alarms fire at the same instants as the reminders the todo gets with
+ * the entry's due date, e.g. alarms exported from the default reminders.
+ */
+const matchesReminders = (
+  entry: ICalendarEntry,
+  existing: WorkTodo | null,
+  settings: WorkSettings,
+  timeZone: string | null
+): boolean => {
+  const due = { dueAt: entry.dueAt, date: entry.date, time: entry.time, allDay: entry.allDay }
+  const todo = existing
+    ? { ...existing, ...due }
+    : ({ ...due, status: entry.status ?? 'not_started' } as WorkTodo)
+  const expected = resolveReminderTimes(todo, settings, timeZone)
+    .map((reminder) => new Date(reminder.at).getTime())
+    .sort((a, b) => a - b)
+  const dueAt = new Date(entry.dueAt).getTime()
+  const actual = (entry.reminders ?? [])
+    .map((minutes) => dueAt - minutes * 60000)
+    .sort((a, b) => a - b)
+  return JSON.stringify(expected) === JSON.stringify(actual)
+}
+
+/**
+ * Builds the todo fields for a calendar entry. For an existing todo only the fields that
+ * differ are returned, with the changes they make. Alarms matching the reminders the todo
+ * already gets are left alone, so default reminders are not pinned onto the todo.
+ */
+const buildImportInput = (
+  entry: ICalendarEntry,
+  existing: WorkTodo | null,
+  projectId: string | undefined,
+  tags: string[],
+  remindersMatch: boolean
+): { input: WorkTodoInput; changes: WorkFieldChange[] } => {
+  const target: WorkTodoInput = {
+    title: entry.title,
+    description: entry.description,
+    status: entry.status,
+    priority: entry.priority,
+    recurrence: entry.recurrence,
+  }
+  if (projectId) target.projectId = projectId
+  if (tags.length > 0) target.tags = tags
+  if (!remindersMatch && entry.reminders?.length === 1) target.reminderMinutes = entry.reminders[0]
+  if (!remindersMatch && entry.reminders && entry.reminders.length > 1) {
+    target.reminders = entry.reminders
+  }
+
+  if (!existing) {
+    return {
+      input: {
+        ...target,
+        icon: IMPORTED_TODO_ICON,
+        status: entry.status ?? 'not_started',
+        dueAt: entry.dueAt,
+        allDay: entry.allDay,
+        ...(entry.allDay ? { date: entry.date, time: entry.time } : {}),
+      },
+      changes: [],
+    }
+  }
+
+  const input: WorkTodoInput = {}
+  const changes: WorkFieldChange[] = []
+  const compare = <K extends keyof WorkTodoInput & keyof WorkTodo>(
+    field: K,
+    equal: (from: WorkTodo[K], to: NonNullable<WorkTodoInput[K]>) => boolean = (from, to) =>
+      JSON.stringify(from ?? null) === JSON.stringify(to)
+  ) => {
+    const to = target[field]
+    if (to === undefined || to === null) return
+    if (equal(existing[field], to as NonNullable<WorkTodoInput[K]>)) return
+    input[field] = to
+    changes.push({ field, from: existing[field] ?? null, to })
+  }
+
+  compare('title')
+  compare('description')
+  compare('status')
+  compare('priority')
+  compare('recurrence')
+  compare('projectId')
+  compare(
+    'tags',
+    (from, to) => JSON.stringify(normalizeTags(from ?? [])) === JSON.stringify(normalizeTags(to))
+  )
+  compare('reminderMinutes', (from, to) => !existing.reminders?.length && from === to)
+  compare('reminders')
+
+  const dueChanged = entry.allDay
+    ? !existing.allDay || existing.date !== entry.date
+    : existing.allDay || !sameInstant(existing.dueAt, entry.dueAt)
+  if (dueChanged) {
+    input.dueAt = entry.dueAt
+    input.allDay = entry.allDay
+    if (entry.allDay) {
+      input.date = entry.date
+      input.time = entry.time
+    }
+    changes.push({ field: 'dueAt', from: existing.dueAt, to: entry.dueAt })
+    if (existing.allDay !== entry.allDay) {
+      changes.push({ field: 'allDay', from: existing.allDay, to: entry.allDay })
+    }
+  }
+
+  return { input, changes }
+}
+
+export function createImportIcsTool(
+  repository: WorkRepository,
+  onImport?: (todos: WorkTodo[], userId: string) => void
+): Tool {
+  return {
+    id: 'work_import_ics',
+    name: 'Import Calendar',
+    description:
+      'Import tasks and events from an iCalendar (.ics) file as todos. Entries are matched on their UID, so importing the same file again updates the todos it created instead of duplicating them. Alarms become reminders and categories become tags. Use dryRun to show what would be created or changed first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The .ics file content.' },
+        projectId: {
+          type: 'string',
+          description: 'Project to put the imported todos in.',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report what would be created or updated without saving anything.',
+        },
+      },
+      required: ['content'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { content, projectId, dryRun } = params as unknown as ImportIcsParams
+        if (typeof content !== 'string' || !content.trim()) {
+          return { success: false, error: 'content must be the text of an .ics file' }
+        }
+        if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+          return { success: false, error: 'dryRun must be true or false' }
+        }
+        const project = projectId ? await repo.getProject(projectId) : null
+        if (projectId && !project) return { success: false, error: 'Project not found' }
+
+        const timeZone = await repo.getTimeZone()
+        const { entries, skipped } = parseICalendar(content, timeZone)
+        if (entries.length === 0 && skipped.length === 0) {
+          return { success: false, error: 'No VTODO or VEVENT entries found' }
+        }
+        const settings = await repo.getSettings()
+
+        // work_export_ics writes the project name as a category; it is not a tag
+        const projectNames = new Set<string>()
+        let cursor: string | undefined
+        do {
+          const page = await repo.listProjects({ includeArchived: true, limit: PAGE_SIZE, cursor })
+          for (const entry of page.items) projectNames.add(entry.name.toLowerCase())
+          cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        const imports: WorkTodoImport[] = []
+        const items: ImportIcsItem[] = []
+        const seen = new Set<string>()
+        let unchanged = 0
+
+        for (const entry of entries) {
+          // Recurring events repeat their UID for changed instances; the first one wins
+          if (seen.has(entry.uid)) {
+            skipped.push({ uid: entry.uid, title: entry.title, reason: 'duplicate UID' })
+            continue
+          }
+          seen.add(entry.uid)
+
+          // UIDs from work_export_ics name the todo directly
+          const exportedId = uidToTodoId(entry.uid)
+          const exported = exportedId ? await repo.getTodo(exportedId) : null
+          const importedId = exported ? null : await repo.findTodoIdByIcalUid(entry.uid)
+          const existing = exported ?? (importedId ? await repo.getTodo(importedId) : null)
+          const tags = entry.categories.filter(
+            (category) => !projectNames.has(category.toLowerCase())
+          )
+          const { input, changes } = buildImportInput(
+            entry,
+            existing,
+            projectId,
+            tags,
+            matchesReminders(entry, existing, settings, timeZone)
+          )
+
+          if (existing && changes.length === 0) {
+            unchanged++
+            continue
+          }
+
+          imports.push({ id: existing?.id, input, icalUid: exported ? undefined : entry.uid })
+          items.push({
+            action: existing ? 'update' : 'create',
+            uid: entry.uid,
+            ...(existing ? { id: existing.id, changes } : {}),
+            title: entry.title,
+            dueAt: entry.dueAt,
+          })
+        }
+
+        if (!dryRun && imports.length > 0) {
+          const todos = await repo.importTodos(imports, { ignoreBlockers: true })
+          todos.forEach((todo, index) => {
+            items[index].id = todo.id
+          })
+          onImport?.(todos, execContext.userId)
+        }
+
+        return {
+          success: true,
+          data: {
+            dryRun: dryRun === true,
+            created: items.filter((item) => item.action === 'create').length,
+            updated: items.filter((item) => item.action === 'update').length,
+            unchanged,
+            skipped,
+            items,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -3,15 +3,39 @@ export {
   createGetProjectTool,
   createUpsertProjectTool,
   createDeleteProjectTool,
+  createArchiveProjectTool,
+  createUnarchiveProjectTool,
 } from './projects.js'
 export {
   createListTodosTool,
   createGetTodoTool,
   createUpsertTodoTool,
   createDeleteTodoTool,
+  createSnoozeTodoTool,
 } from './todos.js'
 export { createAddCommentTool, createDeleteCommentTool } from './comments.js'
-export { createAddSubItemTool, createDeleteSubItemTool } from './subitems.js'
+export {
+  createAddSubItemTool,
+  createDeleteSubItemTool,
+  createToggleSubItemTool,
+  createUpdateSubItemTool,
+  createReorderSubItemsTool,
+  createPromoteSubItemTool,
+} from './subitems.js'
+export { createTodoHistoryTool } from './history.js'
+export { createListTrashTool, createRestoreFromTrashTool, createPurgeTrashTool } from './trash.js'
+export { createSearchTool } from './search.js'
+export { createExportIcsTool, createImportIcsTool } from './ical.js'
+export { createExportMarkdownTool, createImportMarkdownTool } from './markdown.js'
+export { createExportTodoTxtTool, createImportTodoTxtTool } from './todotxt.js'
+export { createExportBackupTool, createImportBackupTool } from './backup.js'
+export { createAddDependencyTool, createRemoveDependencyTool } from './dependencies.js'
+export {
+  createListTagsTool,
+  createRenameTagTool,
+  createMergeTagsTool,
+  createDeleteTagTool,
+} from './tags.js'
 export {
   createListSettingsTool,
   createGetSettingsTool,
@@ -0,0 +1,300 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import {
+  buildMarkdown,
+  parseMarkdownChecklist,
+  type MarkdownSection,
+  type MarkdownTodoEntry,
+} from '../markdown.js'
+import { formatZonedDate, resolveUtcOffset } from '../timezone.js'
+import type {
+  ListTodosOptions,
+  WorkProject,
+  WorkTodo,
+  WorkTodoImport,
+  WorkTodoStatus,
+} from '../types.js'
+
+interface ExportMarkdownParams {
+  projectId?: string
+  statuses?: WorkTodoStatus[]
+  dueAfter?: string
+  dueBefore?: string
+  includeComments?: boolean
+}
+
+interface ImportMarkdownParams {
+  content: string
+  projectId?: string
+  dryRun?: boolean
+}
+
+interface ImportMarkdownItem {
+  id?: string
+  title: string
+  status: WorkTodoStatus
+  project: string | null
+  dueAt: string
+  subItems: number
+  comments: number
+}
+
+const STATUS_OPTIONS: WorkTodoStatus[] = ['not_started', 'in_progress', 'completed', 'cancelled']
+
+const PAGE_SIZE = 200
+
+/** Icon for todos created from a checklist. */
+const IMPORTED_TODO_ICON = 'check-list'
+
+const isValidDateInput = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value.trim()).getTime())
+
+const listAllProjects = async (repo: WorkRepository): Promise<WorkProject[]> => {
+  const projects: WorkProject[] = []
+  let cursor: string | undefined
+  do {
+    const page = await repo.listProjects({ includeArchived: true, limit: PAGE_SIZE, cursor })
+    projects.push(...page.items)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+  return projects
+}
+
+export function createExportMarkdownTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_export_markdown',
+    name: 'Export Markdown',
+    description:
+      'Export todos as a Markdown checklist with a heading per project. Todos and their subitems are "- [ ]" or "- [x]" items; due dates and comments are nested as sub-bullets. Cancelled todos are checked and struck through.',
+    parameters: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string' },
+        statuses: {
+          type: 'array',
+          description: 'Only todos with any of these statuses; all by default.',
+          items: { type: 'string', enum: STATUS_OPTIONS },
+        },
+        dueAfter: {
+          type: 'string',
+          description: 'Due at or after this ISO 8601 date/time (inclusive).',
+        },
+        dueBefore: {
+          type: 'string',
+          description: 'Due before this ISO 8601 date/time (exclusive).',
+        },
+        includeComments: {
+          type: 'boolean',
+          description: 'Set to false to leave out comments. Defaults to true.',
+        },
+      },
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { projectId, statuses, dueAfter, dueBefore, includeComments } =
+          params as ExportMarkdownParams
+
+        if (statuses !== undefined) {
+          const invalid = Array.isArray(statuses)
+            ? statuses.find((status) => !STATUS_OPTIONS.includes(status))
+            : statuses
+          if (invalid !== undefined) {
+            return {
+              success: false,
+              error: `Invalid todo status "${String(invalid)}". Allowed: ${STATUS_OPTIONS.join(', ')}`,
+            }
+          }
+        }
+        for (const [key, value] of Object.entries({ dueAfter, dueBefore })) {
+          if (value !== undefined && !isValidDateInput(value)) {
+            return { success: false, error: `${key} must be an ISO 8601 date or date-time` }
+          }
+        }
+        if (includeComments !== undefined && typeof includeComments !== 'boolean') {
+          return { success: false, error: 'includeComments must be true or false' }
+        }
+
+        const project = projectId ? await repo.getProject(projectId) : null
+        if (projectId && !project) return { success: false, error: 'Project not found' }
+
+        const filters: ListTodosOptions = {
+          projectId,
+          statuses: statuses?.length ? statuses : undefined,
+          dueAfter: dueAfter?.trim(),
+          dueBefore: dueBefore?.trim(),
+        }
+        const todos: WorkTodo[] = []
+        let cursor: string | undefined
+        do {
+          const page = await repo.listTodos({ ...filters, limit: PAGE_SIZE, cursor })
+          for (const item of page.items) {
+            // Listed todos come without their subitems and comments
+            todos.push((await repo.getTodo(item.id)) ?? item)
+          }
+          cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        const projects = project ? [project] : await listAllProjects(repo)
+        const sections: MarkdownSection[] = projects.map((entry) => ({
+          title: entry.name,
+          todos: todos.filter((todo) => todo.projectId === entry.id),
+        }))
+        const projectIds = new Set(projects.map((entry) => entry.id))
+        sections.push({
+          title: null,
+          todos: todos.filter((todo) => !todo.projectId || !projectIds.has(todo.projectId)),
+        })
+
+        const content = buildMarkdown(
+          // A single project is exported even when empty; otherwise only non-empty headings
+          project ? sections.slice(0, 1) : sections.filter((section) => section.todos.length > 0),
+          { includeComments }
+        )
+
+        return {
+          success: true,
+          data: {
+            count: todos.length,
+            filename: 'work-todos.md',
+            mimeType: 'text/markdown',
+            content,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createImportMarkdownTool(
+  repository: WorkRepository,
+  onImport?: (todos: WorkTodo[], newProjects: string[], userId: string) => void
+): Tool {
+  return {
+    id: 'work_import_markdown',
+    name: 'Import Markdown',
+    description:
+      'Turn a Markdown checklist into todos. Top-level "- [ ]"/"- [x]" items become todos (checked ones completed, struck-through checked ones cancelled) and nested checkbox items their subitems, keeping their checked state. A nested "Due: YYYY-MM-DD [HH:MM]" sets the due date and other nested bullets become comments. Headings pick the project by name, creating missing projects, unless projectId is given. Todos without a due date are due today (all day). Use dryRun to preview.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The Markdown text.' },
+        projectId: {
+          type: 'string',
+          description: 'Project to put all imported todos in; headings are then ignored.',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report what would be created without saving anything.',
+        },
+      },
+      required: ['content'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { content, projectId, dryRun } = params as unknown as ImportMarkdownParams
+        if (typeof content !== 'string' || !content.trim()) {
+          return { success: false, error: 'content must be Markdown text' }
+        }
+        if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+          return { success: false, error: 'dryRun must be true or false' }
+        }
+        const project = projectId ? await repo.getProject(projectId) : null
+        if (projectId && !project) return { success: false, error: 'Project not found' }
+
+        const timeZone = await repo.getTimeZone()
+        const { sections, warnings } = parseMarkdownChecklist(content, timeZone)
+        if (sections.length === 0) {
+          return { success: false, error: 'No checklist items found' }
+        }
+
+        const today = timeZone
+          ? formatZonedDate(new Date(), timeZone)
+          : new Date().toISOString().slice(0, 10)
+        const defaultDue: NonNullable<MarkdownTodoEntry['due']> = {
+          dueAt: `${today}T00:00:00${resolveUtcOffset(today, '00:00', timeZone)}`,
+          date: today,
+          time: '00:00',
+          allDay: true,
+        }
+
+        const existingProjects = project ? [] : await listAllProjects(repo)
+        const projectsByName = new Map(
+          existingProjects.map((entry) => [entry.name.toLowerCase(), entry])
+        )
+        const newProjects: string[] = []
+        const imports: WorkTodoImport[] = []
+        const items: ImportMarkdownItem[] = []
+
+        for (const section of sections) {
+          let target: WorkProject | null = project
+          // Missing projects are created by the import itself, in its transaction
+          let newProject: string | undefined
+          if (!project && section.title) {
+            target = projectsByName.get(section.title.toLowerCase()) ?? null
+            if (!target) {
+              newProject =
+                newProjects.find((name) => name.toLowerCase() === section.title?.toLowerCase()) ??
+                section.title
+              if (!newProjects.includes(newProject)) newProjects.push(newProject)
+            }
+          }
+
+          for (const entry of section.todos) {
+            const due = entry.due ?? defaultDue
+            imports.push({
+              input: {
+                projectId: target?.id ?? null,
+                title: entry.title,
+                icon: IMPORTED_TODO_ICON,
+                status: entry.status,
+                ...due,
+              },
+              newProject,
+              subItems: entry.subItems,
+              comments: entry.comments,
+            })
+            items.push({
+              title: entry.title,
+              status: entry.status,
+              project: target?.name ?? newProject ?? null,
+              dueAt: due.dueAt,
+              subItems: entry.subItems.length,
+              comments: entry.comments.length,
+            })
+          }
+        }
+
+        if (!dryRun) {
+          const todos = await repo.importTodos(imports, { ignoreBlockers: true })
+          todos.forEach((todo, index) => {
+            items[index].id = todo.id
+          })
+          onImport?.(todos, newProjects, execContext.userId)
+        }
+
+        return {
+          success: true,
+          data: {
+            dryRun: dryRun === true,
+            created: items.length,
+            newProjects,
+            warnings,
+            items,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -1,11 +1,14 @@
 import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
 import type { WorkRepository } from '../db/repository.js'
-import type { WorkProjectInput } from '../types.js'
+import type { WorkProjectInput, WorkProjectStatus } from '../types.js'
 
 interface ListProjectsParams {
   query?: string
+  status?: WorkProjectStatus
+  includeArchived?: boolean
   limit?: number
   offset?: number
+  cursor?: string
 }
 
 interface GetProjectParams {
@@ -20,17 +23,123 @@ interface DeleteProjectParams {
   id: string
 }
 
+interface ArchiveProjectParams {
+  id: string
+}
+
+const PROJECT_STATUS_OPTIONS: WorkProjectStatus[] = ['active', 'on_hold', 'done']
+
+const normalizeProjectStatus = (value: unknown): WorkProjectStatus | undefined => {
+  if (typeof value !== 'string') return undefined
+  switch (value.trim().toLowerCase()) {
+    case 'active':
+    case 'open':
+      return 'active'
+    case 'on_hold':
+    case 'on-hold':
+    case 'on hold':
+    case 'paused':
+      return 'on_hold'
+    case 'done':
+    case 'completed':
+    case 'finished':
+      return 'done'
+    default:
+      return undefined
+  }
+}
+
+const validateProjectStatus = (
+  value: unknown
+): { ok: true; status?: WorkProjectStatus } | { ok: false; error: string } => {
+  if (value === undefined) return { ok: true, status: undefined }
+  const normalized = normalizeProjectStatus(value)
+  if (!normalized) {
+    return {
+      ok: false,
+      error: `Invalid project status "${String(value)}". Allowed: ${PROJECT_STATUS_OPTIONS.join(', ')}`,
+    }
+  }
+  return { ok: true, status: normalized }
+}
+
+/** Empty strings clear optional fields, like null. */
+const normalizeClearable = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const isValidDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+
+/**
+ * Validates and normalizes the fields of work_projects_upsert.
+ */
+const validateProjectInput = (
+  params: UpsertProjectParams
+): { ok: true; input: WorkProjectInput } | { ok: false; error: string } => {
+  const statusCheck = validateProjectStatus(params.status)
+  if (!statusCheck.ok) return statusCheck
+
+  if (params.icon !== undefined && (typeof params.icon !== 'string' || !params.icon.trim())) {
+    return { ok: false, error: 'icon must be a non-empty icon name' }
+  }
+
+  const color = normalizeClearable(params.color)
+  if (color !== undefined && color !== null) {
+    if (typeof color !== 'string' || !HEX_COLOR_PATTERN.test(color)) {
+      return { ok: false, error: 'color must be a hex color like #3b82f6' }
+    }
+  }
+
+  const dates: Record<'startDate' | 'deadline', string | null | undefined> = {
+    startDate: undefined,
+    deadline: undefined,
+  }
+  for (const key of ['startDate', 'deadline'] as const) {
+    const value = normalizeClearable(params[key])
+    if (value !== undefined && value !== null && (typeof value !== 'string' || !isValidDate(value))) {
+      return { ok: false, error: `${key} must be a date (YYYY-MM-DD)` }
+    }
+    dates[key] = value as string | null | undefined
+  }
+
+  return {
+    ok: true,
+    input: {
+      name: params.name,
+      description: params.description,
+      icon: params.icon?.trim(),
+      color: typeof color === 'string' ? color.toLowerCase() : (color as null | undefined),
+      status: statusCheck.status,
+      startDate: dates.startDate,
+      deadline: dates.deadline,
+    },
+  }
+}
+
 export function createListProjectsTool(repository: WorkRepository): Tool {
   return {
     id: 'work_projects_list',
     name: 'List Projects',
-    description: 'List work projects with optional filtering.',
+    description: 'List work projects with optional filtering. Archived projects are left out by default.',
     parameters: {
       type: 'object',
       properties: {
         query: { type: 'string' },
+        status: { type: 'string', enum: PROJECT_STATUS_OPTIONS },
+        includeArchived: { type: 'boolean', description: 'Include archived projects.' },
         limit: { type: 'number' },
         offset: { type: 'number' },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page; continues after it.',
+        },
       },
     },
     async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
@@ -39,9 +148,30 @@ export function createListProjectsTool(repository: WorkRepository): Tool {
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
-        const { query, limit, offset } = params as ListProjectsParams
-        const projects = await repo.listProjects({ query, limit, offset })
-        return { success: true, data: { count: projects.length, projects } }
+        const { query, status, includeArchived, limit, offset, cursor } = params as ListProjectsParams
+        const statusCheck = validateProjectStatus(status)
+        if (!statusCheck.ok) return { success: false, error: statusCheck.error }
+        if (includeArchived !== undefined && typeof includeArchived !== 'boolean') {
+          return { success: false, error: 'includeArchived must be true or false' }
+        }
+        const page = await repo.listProjects({
+          query,
+          status: statusCheck.status,
+          includeArchived,
+          limit,
+          offset,
+          cursor,
+        })
+        return {
+          success: true,
+          data: {
+            count: page.items.length,
+            total: page.total,
+            hasMore: page.hasMore,
+            nextCursor: page.nextCursor,
+            projects: page.items,
+          },
+        }
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) }
       }
@@ -86,13 +216,19 @@ export function createUpsertProjectTool(
   return {
     id: 'work_projects_upsert',
     name: 'Add/Update Project',
-    description: 'Create or update a project.',
+    description:
+      'Create or update a project, with an optional icon, color, status and start/deadline dates.',
     parameters: {
       type: 'object',
       properties: {
         id: { type: 'string' },
         name: { type: 'string' },
         description: { type: 'string' },
+        icon: { type: 'string', description: 'Icon name shown for the project, e.g. folder-01.' },
+        color: { type: 'string', description: 'Hex color, e.g. #3b82f6. Empty string clears it.' },
+        status: { type: 'string', enum: PROJECT_STATUS_OPTIONS },
+        startDate: { type: 'string', description: 'YYYY-MM-DD. Empty string clears it.' },
+        deadline: { type: 'string', description: 'YYYY-MM-DD. Empty string clears it.' },
       },
     },
     async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
@@ -101,8 +237,10 @@ export function createUpsertProjectTool(
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
-        const { id, name, description } = params as UpsertProjectParams
-        const project = await repo.upsertProject(id, { name, description })
+        const { id, ...fields } = params as UpsertProjectParams
+        const validation = validateProjectInput(fields)
+        if (!validation.ok) return { success: false, error: validation.error }
+        const project = await repo.upsertProject(id, validation.input)
         onChange?.(execContext.userId)
         return { success: true, data: project }
       } catch (error) {
@@ -119,7 +257,8 @@ export function createDeleteProjectTool(
   return {
     id: 'work_projects_delete',
     name: 'Delete Project',
-    description: 'Delete a project by ID (todos are kept but unassigned).',
+    description:
+      'Move a project to the trash. Its todos are kept without a project until it is restored with work_trash_restore.',
     parameters: {
       type: 'object',
       properties: {
@@ -145,3 +284,72 @@ export function createDeleteProjectTool(
     },
   }
 }
+
+export function createArchiveProjectTool(
+  repository: WorkRepository,
+  onChange?: (projectId: string, userId: string) => void
+): Tool {
+  return {
+    id: 'work_projects_archive',
+    name: 'Archive Project',
+    description:
+      'Archive a project. It and its todos are hidden from the panel and default lists, and reminders for its todos stop until it is unarchived.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { id } = params as unknown as ArchiveProjectParams
+        if (!id) return { success: false, error: 'Project id is required' }
+        const project = await repo.archiveProject(id)
+        if (!project) return { success: false, error: 'Project not found' }
+        onChange?.(id, execContext.userId)
+        return { success: true, data: project }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createUnarchiveProjectTool(
+  repository: WorkRepository,
+  onChange?: (projectId: string, userId: string) => void
+): Tool {
+  return {
+    id: 'work_projects_unarchive',
+    name: 'Unarchive Project',
+    description: 'Bring an archived project back, with its todos and their reminders.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { id } = params as unknown as ArchiveProjectParams
+        if (!id) return { success: false, error: 'Project id is required' }
+        const project = await repo.unarchiveProject(id)
+        if (!project) return { success: false, error: 'Project not found' }
+        onChange?.(id, execContext.userId)
+        return { success: true, data: project }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -0,0 +1,62 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import type { WorkSearchKind } from '../types.js'
+
+interface SearchParams {
+  query: string
+  kinds?: WorkSearchKind[]
+  limit?: number
+  offset?: number
+}
+
+const SEARCH_KIND_OPTIONS: WorkSearchKind[] = ['todo', 'comment', 'subitem']
+
+export function createSearchTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_search',
+    name: 'Search Work',
+    description:
+      'Full-text search across todo titles and descriptions, comments and subitems. Returns ranked hits with a snippet and the owning todo and project.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to search for; all words must match.' },
+        kinds: {
+          type: 'array',
+          description: 'Limit hits to todos, comments and/or subitems.',
+          items: { type: 'string', enum: SEARCH_KIND_OPTIONS },
+        },
+        limit: { type: 'number' },
+        offset: { type: 'number' },
+      },
+      required: ['query'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { query, kinds, limit, offset } = params as unknown as SearchParams
+        if (typeof query !== 'string' || !query.trim()) {
+          return { success: false, error: 'Search query is required' }
+        }
+        if (kinds !== undefined) {
+          const invalid = Array.isArray(kinds)
+            ? kinds.find((kind) => !SEARCH_KIND_OPTIONS.includes(kind))
+            : kinds
+          if (invalid !== undefined) {
+            return {
+              success: false,
+              error: `Invalid search kind "${String(invalid)}". Allowed: ${SEARCH_KIND_OPTIONS.join(', ')}`,
+            }
+          }
+        }
+        const hits = await repo.search({ query, kinds, limit, offset })
+        return { success: true, data: { count: hits.length, hits } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -1,5 +1,7 @@
 import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
 import type { WorkRepository } from '../db/repository.js'
+import { MAX_REMINDERS_PER_TODO, normalizeReminderList } from '../reminders.js'
+import { isValidTimeZone } from '../timezone.js'
 import type { WorkSettings, WorkSettingsUpdate } from '../types.js'
 
 interface ListSettingsItem {
@@ -23,6 +25,17 @@ const normalizeNullableNumber = (value: unknown): number | null | undefined => {
   return null
 }
 
+const normalizeOptionalBoolean = (value: unknown): boolean | undefined => {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toLowerCase()
+    if (trimmed === 'true' || trimmed === 'on' || trimmed === 'yes') return true
+    if (trimmed === 'false' || trimmed === 'off' || trimmed === 'no') return false
+  }
+  return undefined
+}
+
 const normalizeNullableString = (value: unknown): string | null | undefined => {
   if (value === undefined) return undefined
   if (value === null) return null
@@ -48,7 +61,7 @@ export function createListSettingsTool(_repository: WorkRepository): Tool {
           {
             id: 'settings',
             label: 'Reminder Settings',
-            description: 'Default reminders and locale.',
+            description: 'Default reminders, locale, the daily agenda and trash retention.',
           },
         ]
         return { success: true, data: { count: items.length, settings: items } }
@@ -95,8 +108,18 @@ export function createUpdateSettingsTool(
       type: 'object',
       properties: {
         defaultReminderMinutes: { type: 'number' },
+        defaultReminders: { type: 'array', items: { type: 'number' } },
         allDayReminderTime: { type: 'string' },
         reminderLocale: { type: 'string' },
+        digestEnabled: { type: 'boolean' },
+        digestTime: { type: 'string' },
+        overdueFollowUpMinutes: { type: 'number' },
+        overdueFollowUpLimit: { type: 'number' },
+        timezone: { type: 'string' },
+        trashRetentionDays: {
+          type: 'number',
+          description: 'Days before deleted items are purged from the trash; null keeps them.',
+        },
       },
     },
     async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
@@ -105,10 +128,32 @@ export function createUpdateSettingsTool(
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
+        const defaultReminders = normalizeReminderList(params.defaultReminders)
+        if (defaultReminders && defaultReminders.length > MAX_REMINDERS_PER_TODO) {
+          return {
+            success: false,
+            error: `At most ${MAX_REMINDERS_PER_TODO} default reminders are supported`,
+          }
+        }
+        const timezone = normalizeNullableString(params.timezone)
+        if (timezone && !isValidTimeZone(timezone)) {
+          return { success: false, error: `Unknown time zone "${timezone}"` }
+        }
+        const trashRetentionDays = normalizeNullableNumber(params.trashRetentionDays)
+        if (typeof trashRetentionDays === 'number' && trashRetentionDays < 1) {
+          return { success: false, error: 'trashRetentionDays must be at least 1' }
+        }
         const update: WorkSettingsUpdate = {
           defaultReminderMinutes: normalizeNullableNumber(params.defaultReminderMinutes),
+          defaultReminders: defaultReminders === null ? [] : defaultReminders,
           allDayReminderTime: normalizeNullableString(params.allDayReminderTime),
           reminderLocale: normalizeNullableString(params.reminderLocale),
+          digestEnabled: normalizeOptionalBoolean(params.digestEnabled),
+          digestTime: normalizeNullableString(params.digestTime),
+          overdueFollowUpMinutes: normalizeNullableNumber(params.overdueFollowUpMinutes),
+          overdueFollowUpLimit: normalizeNullableNumber(params.overdueFollowUpLimit) ?? undefined,
+          timezone,
+          trashRetentionDays,
         }
         const settings = await repo.updateSettings(update)
         onChange?.(settings, execContext.userId)
@@ -1,12 +1,34 @@
 import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
 import type { WorkRepository } from '../db/repository.js'
-import type { WorkSubItemInput } from '../types.js'
+import type { WorkSubItemInput, WorkTodo } from '../types.js'
 
 interface DeleteSubItemParams {
   todoId: string
   subItemId: string
 }
 
+interface ToggleSubItemParams {
+  todoId: string
+  subItemId: string
+}
+
+interface UpdateSubItemParams {
+  todoId: string
+  subItemId: string
+  text?: string
+  sortOrder?: number
+}
+
+interface ReorderSubItemsParams {
+  todoId: string
+  subItemIds: string[]
+}
+
+interface PromoteSubItemParams {
+  todoId: string
+  subItemId: string
+}
+
 export function createAddSubItemTool(
   repository: WorkRepository,
   onChange?: (userId: string) => void
@@ -77,3 +99,164 @@ export function createDeleteSubItemTool(
     },
   }
 }
+
+export function createToggleSubItemTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_subitems_toggle',
+    name: 'Toggle Subitem',
+    description: 'Mark a subitem as done, or as not done if it is already done.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        subItemId: { type: 'string' },
+      },
+      required: ['todoId', 'subItemId'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, subItemId } = params as unknown as ToggleSubItemParams
+        if (!todoId || !subItemId) {
+          return { success: false, error: 'todoId and subItemId are required' }
+        }
+        const toggled = await repo.toggleSubItem(todoId, subItemId)
+        if (!toggled) return { success: false, error: 'Subitem not found' }
+        const subItem = await repo.getSubItem(todoId, subItemId)
+        onChange?.(execContext.userId)
+        return { success: true, data: subItem }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createUpdateSubItemTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_subitems_update',
+    name: 'Update Subitem',
+    description: 'Edit the text or sort order of a subitem.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        subItemId: { type: 'string' },
+        text: { type: 'string' },
+        sortOrder: { type: 'number' },
+      },
+      required: ['todoId', 'subItemId'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, subItemId, text, sortOrder } = params as unknown as UpdateSubItemParams
+        if (!todoId || !subItemId) {
+          return { success: false, error: 'todoId and subItemId are required' }
+        }
+        const trimmedText = text?.trim()
+        if (text !== undefined && !trimmedText) {
+          return { success: false, error: 'Subitem text cannot be empty' }
+        }
+        const subItem = await repo.updateSubItem(todoId, subItemId, {
+          text: trimmedText,
+          sortOrder,
+        })
+        if (!subItem) return { success: false, error: 'Subitem not found' }
+        onChange?.(execContext.userId)
+        return { success: true, data: subItem }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createReorderSubItemsTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_subitems_reorder',
+    name: 'Reorder Subitems',
+    description:
+      'Reorder the subitems of a todo. List subitem IDs in the desired order; unlisted subitems follow after them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        subItemIds: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['todoId', 'subItemIds'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, subItemIds } = params as unknown as ReorderSubItemsParams
+        if (!todoId || !Array.isArray(subItemIds)) {
+          return { success: false, error: 'todoId and subItemIds are required' }
+        }
+        const reordered = await repo.reorderSubItems(todoId, subItemIds)
+        if (!reordered) return { success: false, error: 'Subitem not found' }
+        const subItems = await repo.listSubItems(todoId)
+        onChange?.(execContext.userId)
+        return { success: true, data: { count: subItems.length, subItems } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createPromoteSubItemTool(
+  repository: WorkRepository,
+  onChange?: (todo: WorkTodo, userId: string) => void
+): Tool {
+  return {
+    id: 'work_subitems_promote',
+    name: 'Promote Subitem',
+    description:
+      "Turn a subitem into its own todo in the parent's project. The subitem is removed from the parent.",
+    parameters: {
+      type: 'object',
+      properties: {
+        todoId: { type: 'string' },
+        subItemId: { type: 'string' },
+      },
+      required: ['todoId', 'subItemId'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { todoId, subItemId } = params as unknown as PromoteSubItemParams
+        if (!todoId || !subItemId) {
+          return { success: false, error: 'todoId and subItemId are required' }
+        }
+        const todo = await repo.promoteSubItem(todoId, subItemId)
+        if (!todo) return { success: false, error: 'Subitem not found' }
+        onChange?.(todo, execContext.userId)
+        return { success: true, data: todo }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
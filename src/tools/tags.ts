@@ -0,0 +1,154 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+
+interface RenameTagParams {
+  name: string
+  newName: string
+}
+
+interface MergeTagsParams {
+  sources: string[]
+  target: string
+}
+
+interface DeleteTagParams {
+  name: string
+}
+
+export function createListTagsTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_tags_list',
+    name: 'List Tags',
+    description: 'List tags with the number of todos carrying each tag.',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+    async execute(_params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const tags = await repo.listTags()
+        return { success: true, data: { count: tags.length, tags } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createRenameTagTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_tags_rename',
+    name: 'Rename Tag',
+    description: 'Rename a tag on all todos carrying it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        newName: { type: 'string' },
+      },
+      required: ['name', 'newName'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { name, newName } = params as unknown as RenameTagParams
+        if (!name || !newName) {
+          return { success: false, error: 'name and newName are required' }
+        }
+        const tag = await repo.renameTag(name, newName)
+        if (!tag) return { success: false, error: 'Tag not found' }
+        onChange?.(execContext.userId)
+        return { success: true, data: tag }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createMergeTagsTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_tags_merge',
+    name: 'Merge Tags',
+    description: 'Merge one or more tags into a target tag and delete the merged tags.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sources: {
+          type: 'array',
+          description: 'Names of the tags to merge away.',
+          items: { type: 'string' },
+        },
+        target: {
+          type: 'string',
+          description: 'Name of the tag to keep; created if it does not exist.',
+        },
+      },
+      required: ['sources', 'target'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { sources, target } = params as unknown as MergeTagsParams
+        if (!Array.isArray(sources) || sources.length === 0 || !target) {
+          return { success: false, error: 'sources and target are required' }
+        }
+        const tag = await repo.mergeTags(sources, target)
+        onChange?.(execContext.userId)
+        return { success: true, data: tag }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createDeleteTagTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_tags_delete',
+    name: 'Delete Tag',
+    description: 'Delete a tag and remove it from all todos.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+      },
+      required: ['name'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { name } = params as unknown as DeleteTagParams
+        if (!name) return { success: false, error: 'Tag name is required' }
+        const deleted = await repo.deleteTag(name)
+        if (!deleted) return { success: false, error: 'Tag not found' }
+        onChange?.(execContext.userId)
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
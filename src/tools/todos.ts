@@ -1,27 +1,70 @@
 import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
 import type { WorkRepository } from '../db/repository.js'
-import type { WorkTodo, WorkTodoInput, WorkTodoStatus } from '../types.js'
+import { RECURRENCE_FREQUENCIES, WEEKDAYS, validateRecurrence } from '../recurrence.js'
+import {
+  MAX_REMINDERS_PER_TODO,
+  SNOOZE_OPTIONS,
+  isTodoActive,
+  normalizeReminderList,
+  normalizeSnoozeOption,
+  resolveSnoozeUntil,
+} from '../reminders.js'
+import type {
+  ListTodosOptions,
+  WorkSortDirection,
+  WorkTodo,
+  WorkTodoInput,
+  WorkTodoPriority,
+  WorkTagMatch,
+  WorkTodoSortField,
+  WorkTodoStatus,
+} from '../types.js'
 
 interface ListTodosParams {
   query?: string
   projectId?: string
+  projectIds?: string[]
   status?: WorkTodoStatus
+  statuses?: string[]
+  priority?: WorkTodoPriority
+  tags?: string[]
+  tagMatch?: WorkTagMatch
+  dueAfter?: string
+  dueBefore?: string
+  overdue?: boolean
+  allDay?: boolean
+  updatedSince?: string
+  includeArchived?: boolean
+  sort?: WorkTodoSortField
+  sortDirection?: WorkSortDirection
   limit?: number
   offset?: number
+  cursor?: string
 }
 
 interface GetTodoParams {
   id: string
+  includeHistory?: boolean
 }
 
+/** Number of activity entries included by work_todos_get with includeHistory. */
+const GET_HISTORY_LIMIT = 20
+
 interface UpsertTodoParams extends WorkTodoInput {
   id?: string
+  ignoreBlockers?: boolean
 }
 
 interface DeleteTodoParams {
   id: string
 }
 
+interface SnoozeTodoParams {
+  id: string
+  duration?: string
+  until?: string
+}
+
 const STATUS_OPTIONS: WorkTodoStatus[] = [
   'not_started',
   'in_progress',
@@ -29,6 +72,21 @@ const STATUS_OPTIONS: WorkTodoStatus[] = [
   'cancelled',
 ]
 
+const PRIORITY_OPTIONS: WorkTodoPriority[] = ['none', 'low', 'medium', 'high', 'urgent']
+
+const SORT_OPTIONS: WorkTodoSortField[] = [
+  'dueAt',
+  'priority',
+  'title',
+  'status',
+  'createdAt',
+  'updatedAt',
+]
+
+const SORT_DIRECTION_OPTIONS: WorkSortDirection[] = ['asc', 'desc']
+
+const TAG_MATCH_OPTIONS: WorkTagMatch[] = ['any', 'all']
+
 const normalizeProjectId = (value: unknown): string | null | undefined => {
   if (value === undefined) return undefined
   if (value === null) return null
@@ -94,19 +152,223 @@ const validateStatus = (value: unknown): { ok: true; status?: WorkTodoStatus } |
   return { ok: true, status: normalized }
 }
 
+const normalizePriority = (value: unknown): WorkTodoPriority | undefined => {
+  if (typeof value !== 'string') return undefined
+  const normalized = value.trim().toLowerCase()
+  switch (normalized) {
+    case 'none':
+    case '':
+      return 'none'
+    case 'low':
+      return 'low'
+    case 'medium':
+    case 'normal':
+      return 'medium'
+    case 'high':
+    case 'important':
+      return 'high'
+    case 'urgent':
+    case 'critical':
+      return 'urgent'
+    default:
+      return undefined
+  }
+}
+
+const validatePriority = (
+  value: unknown
+): { ok: true; priority?: WorkTodoPriority } | { ok: false; error: string } => {
+  if (value === undefined) return { ok: true, priority: undefined }
+  const normalized = normalizePriority(value)
+  if (!normalized) {
+    return {
+      ok: false,
+      error: `Invalid todo priority "${String(value)}". Allowed: ${PRIORITY_OPTIONS.join(', ')}`,
+    }
+  }
+  return { ok: true, priority: normalized }
+}
+
+const isValidDateInput = (value: unknown): value is string => {
+  return typeof value === 'string' && !Number.isNaN(new Date(value.trim()).getTime())
+}
+
+/**
+ * Validates and normalizes the filters and sort options of work_todos_list.
+ */
+const validateListOptions = (
+  params: ListTodosParams
+): { ok: true; options: ListTodosOptions } | { ok: false; error: string } => {
+  const statusCheck = validateStatus(params.status)
+  if (!statusCheck.ok) return statusCheck
+
+  let statuses: WorkTodoStatus[] | undefined
+  if (params.statuses !== undefined) {
+    if (!Array.isArray(params.statuses)) {
+      return { ok: false, error: 'statuses must be an array of statuses' }
+    }
+    statuses = []
+    for (const entry of params.statuses) {
+      const check = validateStatus(entry)
+      if (!check.ok) return check
+      if (check.status && !statuses.includes(check.status)) statuses.push(check.status)
+    }
+  }
+
+  if (
+    params.projectIds !== undefined &&
+    (!Array.isArray(params.projectIds) || params.projectIds.some((id) => typeof id !== 'string'))
+  ) {
+    return { ok: false, error: 'projectIds must be an array of project IDs' }
+  }
+
+  const priorityCheck = validatePriority(params.priority)
+  if (!priorityCheck.ok) return priorityCheck
+
+  if (params.tags !== undefined && !Array.isArray(params.tags)) {
+    return { ok: false, error: 'tags must be an array of tag names' }
+  }
+  if (params.tagMatch !== undefined && !TAG_MATCH_OPTIONS.includes(params.tagMatch)) {
+    return {
+      ok: false,
+      error: `Invalid tagMatch "${String(params.tagMatch)}". Allowed: ${TAG_MATCH_OPTIONS.join(', ')}`,
+    }
+  }
+
+  for (const key of ['dueAfter', 'dueBefore', 'updatedSince'] as const) {
+    if (params[key] !== undefined && !isValidDateInput(params[key])) {
+      return { ok: false, error: `${key} must be an ISO 8601 date or date-time` }
+    }
+  }
+  if (
+    params.dueAfter &&
+    params.dueBefore &&
+    new Date(params.dueAfter).getTime() >= new Date(params.dueBefore).getTime()
+  ) {
+    return { ok: false, error: 'dueAfter must be before dueBefore' }
+  }
+
+  for (const key of ['overdue', 'allDay', 'includeArchived'] as const) {
+    if (params[key] !== undefined && typeof params[key] !== 'boolean') {
+      return { ok: false, error: `${key} must be true or false` }
+    }
+  }
+
+  for (const key of ['limit', 'offset'] as const) {
+    const value = params[key]
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return { ok: false, error: `${key} must be a non-negative integer` }
+    }
+  }
+
+  if (params.sort !== undefined && !SORT_OPTIONS.includes(params.sort)) {
+    return {
+      ok: false,
+      error: `Invalid sort "${String(params.sort)}". Allowed: ${SORT_OPTIONS.join(', ')}`,
+    }
+  }
+  if (params.sortDirection !== undefined && !SORT_DIRECTION_OPTIONS.includes(params.sortDirection)) {
+    return {
+      ok: false,
+      error: `Invalid sortDirection "${String(params.sortDirection)}". Allowed: ${SORT_DIRECTION_OPTIONS.join(', ')}`,
+    }
+  }
+
+  return {
+    ok: true,
+    options: {
+      query: params.query,
+      projectId: params.projectId,
+      projectIds: params.projectIds,
+      status: statusCheck.status,
+      statuses,
+      priority: priorityCheck.priority,
+      tags: params.tags,
+      tagMatch: params.tagMatch,
+      dueAfter: params.dueAfter?.trim(),
+      dueBefore: params.dueBefore?.trim(),
+      overdue: params.overdue,
+      allDay: params.allDay,
+      updatedSince: params.updatedSince?.trim(),
+      includeArchived: params.includeArchived,
+      sort: params.sort,
+      sortDirection: params.sortDirection,
+      limit: params.limit,
+      offset: params.offset,
+      cursor: typeof params.cursor === 'string' && params.cursor ? params.cursor : undefined,
+    },
+  }
+}
+
 export function createListTodosTool(repository: WorkRepository): Tool {
   return {
     id: 'work_todos_list',
     name: 'List Todos',
-    description: 'List todos with optional filters.',
+    description:
+      'List todos with optional filters (projects, statuses, due date range, overdue, tags, priority) and sorting.',
     parameters: {
       type: 'object',
       properties: {
         query: { type: 'string' },
         projectId: { type: 'string' },
+        projectIds: {
+          type: 'array',
+          description: 'Todos in any of these projects.',
+          items: { type: 'string' },
+        },
         status: { type: 'string' },
+        statuses: {
+          type: 'array',
+          description: 'Todos with any of these statuses.',
+          items: { type: 'string', enum: STATUS_OPTIONS },
+        },
+        priority: { type: 'string', enum: PRIORITY_OPTIONS },
+        tags: { type: 'array', items: { type: 'string' } },
+        tagMatch: {
+          type: 'string',
+          enum: TAG_MATCH_OPTIONS,
+          description: 'any (default) matches todos with at least one of the tags; all requires every tag.',
+        },
+        dueAfter: {
+          type: 'string',
+          description:
+            "Due at or after this ISO 8601 date/time (inclusive). A date without a time starts at midnight in the user's time zone.",
+        },
+        dueBefore: {
+          type: 'string',
+          description:
+            "Due before this ISO 8601 date/time (exclusive). A date without a time starts at midnight in the user's time zone.",
+        },
+        overdue: {
+          type: 'boolean',
+          description: 'true: only open todos past their due date; false: exclude them.',
+        },
+        allDay: { type: 'boolean' },
+        updatedSince: {
+          type: 'string',
+          description: 'Only todos changed at or after this ISO 8601 date/time.',
+        },
+        includeArchived: {
+          type: 'boolean',
+          description:
+            'Include todos of archived projects. They are always included when filtering by projectId or projectIds.',
+        },
+        sort: {
+          type: 'string',
+          enum: SORT_OPTIONS,
+          description: 'Sort field, due date by default.',
+        },
+        sortDirection: {
+          type: 'string',
+          enum: SORT_DIRECTION_OPTIONS,
+          description: 'Defaults to desc for priority (most urgent first) and asc otherwise.',
+        },
         limit: { type: 'number' },
         offset: { type: 'number' },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page; continues after it with the same filters and sort.',
+        },
       },
     },
     async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
@@ -115,19 +377,21 @@ export function createListTodosTool(repository: WorkRepository): Tool {
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
-        const { query, projectId, status, limit, offset } = params as ListTodosParams
-        const statusCheck = validateStatus(status)
-        if (!statusCheck.ok) {
-          return { success: false, error: statusCheck.error }
+        const optionsCheck = validateListOptions(params as ListTodosParams)
+        if (!optionsCheck.ok) {
+          return { success: false, error: optionsCheck.error }
+        }
+        const page = await repo.listTodos(optionsCheck.options)
+        return {
+          success: true,
+          data: {
+            count: page.items.length,
+            total: page.total,
+            hasMore: page.hasMore,
+            nextCursor: page.nextCursor,
+            todos: page.items,
+          },
         }
-        const todos = await repo.listTodos({
-          query,
-          projectId,
-          status: statusCheck.status,
-          limit,
-          offset,
-        })
-        return { success: true, data: { count: todos.length, todos } }
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) }
       }
@@ -144,6 +408,10 @@ export function createGetTodoTool(repository: WorkRepository): Tool {
       type: 'object',
       properties: {
         id: { type: 'string' },
+        includeHistory: {
+          type: 'boolean',
+          description: `Also return the latest ${GET_HISTORY_LIMIT} activity entries; use work_todos_history for more.`,
+        },
       },
       required: ['id'],
     },
@@ -153,11 +421,17 @@ export function createGetTodoTool(repository: WorkRepository): Tool {
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
-        const { id } = params as unknown as GetTodoParams
+        const { id, includeHistory } = params as unknown as GetTodoParams
         if (!id) return { success: false, error: 'Todo id is required' }
         const todo = await repo.getTodo(id)
         if (!todo) return { success: false, error: 'Todo not found' }
-        return { success: true, data: todo }
+        if (!includeHistory) return { success: true, data: todo }
+        const history = await repo.listActivity({
+          entityType: 'todo',
+          entityId: id,
+          limit: GET_HISTORY_LIMIT,
+        })
+        return { success: true, data: { ...todo, history: history.items } }
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) }
       }
@@ -182,11 +456,38 @@ export function createUpsertTodoTool(
         description: { type: 'string' },
         icon: { type: 'string' },
         status: { type: 'string' },
+        priority: { type: 'string', enum: PRIORITY_OPTIONS },
         dueAt: { type: 'string' },
         date: { type: 'string' },
         time: { type: 'string' },
         allDay: { type: 'boolean' },
         reminderMinutes: { type: 'number' },
+        reminders: {
+          type: 'array',
+          description: `Several reminders, in minutes before due (max ${MAX_REMINDERS_PER_TODO}). Overrides reminderMinutes.`,
+          items: { type: 'number' },
+        },
+        tags: {
+          type: 'array',
+          description: 'Tag names; replaces the current tags. Use [] to remove all tags.',
+          items: { type: 'string' },
+        },
+        ignoreBlockers: {
+          type: 'boolean',
+          description: 'Complete the todo even though todos it depends on are still open.',
+        },
+        recurrence: {
+          type: ['object', 'string', 'null'],
+          description:
+            'Repeat rule; completing the todo creates the next occurrence. An RRULE string is also accepted. Use null to stop repeating.',
+          properties: {
+            frequency: { type: 'string', enum: RECURRENCE_FREQUENCIES },
+            interval: { type: 'number' },
+            weekdays: { type: 'array', items: { type: 'string', enum: WEEKDAYS } },
+            until: { type: 'string' },
+            count: { type: 'number' },
+          },
+        },
       },
     },
     async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
@@ -195,18 +496,41 @@ export function createUpsertTodoTool(
           return { success: false, error: 'User context required' }
         }
         const repo = repository.withUser(execContext.userId)
-        const input = params as UpsertTodoParams
+        const { ignoreBlockers, ...input } = params as UpsertTodoParams
         const statusCheck = validateStatus(input.status)
         if (!statusCheck.ok) {
           return { success: false, error: statusCheck.error }
         }
+        const priorityCheck = validatePriority(input.priority)
+        if (!priorityCheck.ok) {
+          return { success: false, error: priorityCheck.error }
+        }
+        const recurrenceCheck = validateRecurrence(params.recurrence)
+        if (!recurrenceCheck.ok) {
+          return { success: false, error: recurrenceCheck.error }
+        }
+        const reminders = normalizeReminderList(params.reminders)
+        if (reminders && reminders.length > MAX_REMINDERS_PER_TODO) {
+          return {
+            success: false,
+            error: `A todo can have at most ${MAX_REMINDERS_PER_TODO} reminders`,
+          }
+        }
+        if (input.tags !== undefined && !Array.isArray(input.tags)) {
+          return { success: false, error: 'tags must be an array of tag names' }
+        }
         const normalized: UpsertTodoParams = {
           ...input,
           projectId: normalizeProjectId(input.projectId),
           status: statusCheck.status,
+          priority: priorityCheck.priority,
           reminderMinutes: normalizeReminderMinutes(input.reminderMinutes),
+          reminders,
+          recurrence: recurrenceCheck.recurrence,
         }
-        const todo = await repo.upsertTodo(normalized.id, normalized)
+        const todo = await repo.upsertTodo(normalized.id, normalized, {
+          ignoreBlockers: ignoreBlockers === true,
+        })
         onChange?.(todo, execContext.userId)
         return { success: true, data: todo }
       } catch (error) {
@@ -223,7 +547,8 @@ export function createDeleteTodoTool(
   return {
     id: 'work_todos_delete',
     name: 'Delete Todo',
-    description: 'Delete a todo by ID.',
+    description:
+      'Move a todo to the trash. It can be restored with work_trash_restore until the trash is purged.',
     parameters: {
       type: 'object',
       properties: {
@@ -249,3 +574,72 @@ export function createDeleteTodoTool(
     },
   }
 }
+
+export function createSnoozeTodoTool(
+  repository: WorkRepository,
+  onChange?: (todo: WorkTodo, userId: string) => void
+): Tool {
+  return {
+    id: 'work_todos_snooze',
+    name: 'Snooze Todo Reminder',
+    description:
+      'Remind again later without changing the due date: in 10 minutes, in 1 hour, tomorrow morning, or at a given time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        duration: { type: 'string', enum: SNOOZE_OPTIONS },
+        until: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { id, duration, until } = params as unknown as SnoozeTodoParams
+        if (!id) return { success: false, error: 'Todo id is required' }
+
+        const existing = await repo.getTodo(id)
+        if (!existing) return { success: false, error: 'Todo not found' }
+        if (!isTodoActive(existing)) {
+          return { success: false, error: 'Completed or cancelled todos cannot be snoozed' }
+        }
+
+        let snoozedUntil: string
+        if (until) {
+          const parsed = new Date(until)
+          if (Number.isNaN(parsed.getTime()) || parsed.getTime() <= Date.now()) {
+            return { success: false, error: 'until must be a future ISO 8601 date-time' }
+          }
+          snoozedUntil = until
+        } else {
+          const option = normalizeSnoozeOption(duration ?? '')
+          if (!option) {
+            return {
+              success: false,
+              error: `Invalid snooze duration "${String(duration)}". Allowed: ${SNOOZE_OPTIONS.join(', ')}`,
+            }
+          }
+          const settings = await repo.getSettings()
+          snoozedUntil = resolveSnoozeUntil(
+            option,
+            existing,
+            settings,
+            new Date(),
+            await repo.getTimeZone()
+          )
+        }
+
+        const todo = await repo.snoozeTodo(id, snoozedUntil)
+        if (!todo) return { success: false, error: 'Todo not found' }
+        onChange?.(todo, execContext.userId)
+        return { success: true, data: todo }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
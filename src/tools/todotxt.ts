@@ -0,0 +1,379 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import { formatZonedDate, resolveUtcOffset } from '../timezone.js'
+import { buildTodoTxt, parseTodoTxt, todoTxtKey, type TodoTxtEntry } from '../todotxt.js'
+import type {
+  ListTodosOptions,
+  WorkFieldChange,
+  WorkProject,
+  WorkTodo,
+  WorkTodoImport,
+  WorkTodoInput,
+  WorkTodoStatus,
+} from '../types.js'
+
+type ContextMode = 'tags' | 'comments'
+
+interface ExportTodoTxtParams {
+  projectId?: string
+  statuses?: WorkTodoStatus[]
+  dueAfter?: string
+  dueBefore?: string
+}
+
+interface ImportTodoTxtParams {
+  content: string
+  contexts?: ContextMode
+  dryRun?: boolean
+}
+
+interface ImportTodoTxtItem {
+  action: 'create' | 'update'
+  line: number
+  id?: string
+  title: string
+  changes?: WorkFieldChange[]
+}
+
+const STATUS_OPTIONS: WorkTodoStatus[] = ['not_started', 'in_progress', 'completed', 'cancelled']
+
+const CONTEXT_OPTIONS: ContextMode[] = ['tags', 'comments']
+
+const PAGE_SIZE = 200
+
+/** Icon for todos created from todo.txt lines. */
+const IMPORTED_TODO_ICON = 'task-01'
+
+const isValidDateInput = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value.trim()).getTime())
+
+const listAllProjects = async (repo: WorkRepository): Promise<WorkProject[]> => {
+  const projects: WorkProject[] = []
+  let cursor: string | undefined
+  do {
+    const page = await repo.listProjects({ includeArchived: true, limit: PAGE_SIZE, cursor })
+    projects.push(...page.items)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+  return projects
+}
+
+export function createExportTodoTxtTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_export_todotxt',
+    name: 'Export todo.txt',
+    description:
+      'Export todos in the todo.txt format: "x" for done, (A)-(D) for urgent to low priority, +project, @tag and due:YYYY-MM-DD, with time:, status: and pri: where todo.txt has no marker. Title words that look like markers are written with a leading backslash. Each line carries id: so importing the file again updates the same todos.',
+    parameters: {
+      type: 'object',
+      properties: {
+        projectId: { type: 'string' },
+        statuses: {
+          type: 'array',
+          description: 'Only todos with any of these statuses; all by default.',
+          items: { type: 'string', enum: STATUS_OPTIONS },
+        },
+        dueAfter: {
+          type: 'string',
+          description: 'Due at or after this ISO 8601 date/time (inclusive).',
+        },
+        dueBefore: {
+          type: 'string',
+          description: 'Due before this ISO 8601 date/time (exclusive).',
+        },
+      },
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { projectId, statuses, dueAfter, dueBefore } = params as ExportTodoTxtParams
+
+        if (statuses !== undefined) {
+          const invalid = Array.isArray(statuses)
+            ? statuses.find((status) => !STATUS_OPTIONS.includes(status))
+            : statuses
+          if (invalid !== undefined) {
+            return {
+              success: false,
+              error: `Invalid todo status "${String(invalid)}". Allowed: ${STATUS_OPTIONS.join(', ')}`,
+            }
+          }
+        }
+        for (const [key, value] of Object.entries({ dueAfter, dueBefore })) {
+          if (value !== undefined && !isValidDateInput(value)) {
+            return { success: false, error: `${key} must be an ISO 8601 date or date-time` }
+          }
+        }
+
+        const project = projectId ? await repo.getProject(projectId) : null
+        if (projectId && !project) return { success: false, error: 'Project not found' }
+
+        const filters: ListTodosOptions = {
+          projectId,
+          statuses: statuses?.length ? statuses : undefined,
+          dueAfter: dueAfter?.trim(),
+          dueBefore: dueBefore?.trim(),
+        }
+        const todos: WorkTodo[] = []
+        let cursor: string | undefined
+        do {
+          const page = await repo.listTodos({ ...filters, limit: PAGE_SIZE, cursor })
+          todos.push(...page.items)
+          cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        const projects = project ? [project] : await listAllProjects(repo)
+        const content = buildTodoTxt(todos, {
+          timeZone: await repo.getTimeZone(),
+          projectNames: new Map(projects.map((entry) => [entry.id, entry.name])),
+        })
+
+        return {
+          success: true,
+          data: {
+            count: todos.length,
+            filename: 'todo.txt',
+            mimeType: 'text/plain',
+            content,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+const normalizeTitle = (title: string): string => title.replace(/\s+/g, ' ').trim()
+
+const normalizeTags = (tags: string[]): string[] => [...new Set(tags.map(todoTxtKey))].sort()
+
+/**
+ * Builds the todo fields for a todo.txt line. For an existing todo only the fields that
+ * differ are returned, with the changes they make; a line without due: keeps the due date.
+ */
+const buildImportInput = (
+  entry: TodoTxtEntry,
+  existing: WorkTodo | null,
+  projectId: string | null,
+  newProject: string | undefined,
+  tags: string[] | undefined,
+  defaultDue: NonNullable<TodoTxtEntry['due']>
+): { input: WorkTodoInput; changes: WorkFieldChange[] } => {
+  if (!existing) {
+    return {
+      input: {
+        projectId,
+        title: entry.title,
+        icon: IMPORTED_TODO_ICON,
+        status: entry.status,
+        priority: entry.priority,
+        ...(tags ? { tags } : {}),
+        ...(entry.due ?? defaultDue),
+      },
+      changes: [],
+    }
+  }
+
+  const input: WorkTodoInput = {}
+  const changes: WorkFieldChange[] = []
+  const change = <K extends keyof WorkTodoInput & keyof WorkTodo>(
+    field: K,
+    to: NonNullable<WorkTodoInput[K]> | null,
+    equal: boolean
+  ) => {
+    if (equal) return
+    input[field] = to as WorkTodoInput[K]
+    changes.push({ field, from: existing[field] ?? null, to })
+  }
+
+  change('title', entry.title, normalizeTitle(existing.title) === entry.title)
+  change('status', entry.status, existing.status === entry.status)
+  change('priority', entry.priority, existing.priority === entry.priority)
+  if (newProject) {
+    // The import sets the ID once it has created the project
+    changes.push({ field: 'projectId', from: existing.projectId ?? null, to: newProject })
+  } else {
+    change('projectId', projectId, (existing.projectId ?? null) === projectId)
+  }
+  if (tags) {
+    change(
+      'tags',
+      tags,
+      JSON.stringify(normalizeTags(existing.tags ?? [])) === JSON.stringify(normalizeTags(tags))
+    )
+  }
+
+  const due = entry.due
+  const dueChanged =
+    due &&
+    (due.allDay
+      ? !existing.allDay || existing.date !== due.date
+      : existing.allDay || existing.date !== due.date || existing.time !== due.time)
+  if (due && dueChanged) {
+    Object.assign(input, due)
+    changes.push({ field: 'dueAt', from: existing.dueAt, to: due.dueAt })
+    if (existing.allDay !== due.allDay) {
+      changes.push({ field: 'allDay', from: existing.allDay, to: due.allDay })
+    }
+  }
+
+  return { input, changes }
+}
+
+export function createImportTodoTxtTool(
+  repository: WorkRepository,
+  onImport?: (todos: WorkTodo[], newProjects: string[], userId: string) => void
+): Tool {
+  return {
+    id: 'work_import_todotxt',
+    name: 'Import todo.txt',
+    description:
+      'Import todos from a todo.txt file. "x" marks done, (A)-(D) set urgent to low priority, +project picks the project by name (underscores match spaces) and creates missing ones, and due:YYYY-MM-DD sets the due date. @contexts become tags, or comments with contexts: "comments". Lines with an id: from work_export_todotxt update that todo, so exporting and importing again changes nothing. Lines without due: are due today (all day). Use dryRun to preview.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The todo.txt file content.' },
+        contexts: {
+          type: 'string',
+          enum: CONTEXT_OPTIONS,
+          description: 'What @contexts become: tags (default) or comments.',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report what would be created or updated without saving anything.',
+        },
+      },
+      required: ['content'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { content, contexts = 'tags', dryRun } = params as unknown as ImportTodoTxtParams
+        if (typeof content !== 'string' || !content.trim()) {
+          return { success: false, error: 'content must be the text of a todo.txt file' }
+        }
+        if (!CONTEXT_OPTIONS.includes(contexts)) {
+          return {
+            success: false,
+            error: `Invalid contexts "${String(contexts)}". Allowed: ${CONTEXT_OPTIONS.join(', ')}`,
+          }
+        }
+        if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+          return { success: false, error: 'dryRun must be true or false' }
+        }
+
+        const timeZone = await repo.getTimeZone()
+        const { entries, warnings } = parseTodoTxt(content, timeZone)
+        if (entries.length === 0) {
+          return { success: false, error: 'No todo.txt tasks found' }
+        }
+
+        const today = timeZone
+          ? formatZonedDate(new Date(), timeZone)
+          : new Date().toISOString().slice(0, 10)
+        const defaultDue: NonNullable<TodoTxtEntry['due']> = {
+          dueAt: `${today}T00:00:00${resolveUtcOffset(today, '00:00', timeZone)}`,
+          date: today,
+          time: '00:00',
+          allDay: true,
+        }
+
+        // +project and @context words use underscores for spaces; match them to existing names
+        const projectsByKey = new Map(
+          (await listAllProjects(repo)).map((entry) => [todoTxtKey(entry.name), entry])
+        )
+        const tagNames = new Map(
+          (await repo.listTags()).map((tag) => [todoTxtKey(tag.name), tag.name])
+        )
+        const newProjects = new Map<string, string>()
+        const imports: WorkTodoImport[] = []
+        const items: ImportTodoTxtItem[] = []
+        let unchanged = 0
+
+        for (const entry of entries) {
+          let projectId: string | null = null
+          // Missing projects are created by the import itself, in its transaction
+          let newProject: string | undefined
+          if (entry.project) {
+            const key = todoTxtKey(entry.project)
+            const project = projectsByKey.get(key)
+            if (project) {
+              projectId = project.id
+            } else {
+              newProject = newProjects.get(key) ?? entry.project.replace(/_/g, ' ')
+              newProjects.set(key, newProject)
+            }
+          }
+
+          const existing = entry.id ? await repo.getTodo(entry.id) : null
+          const tags =
+            contexts === 'tags'
+              ? entry.contexts.map(
+                  (context) => tagNames.get(todoTxtKey(context)) ?? context.replace(/_/g, ' ')
+                )
+              : undefined
+          const { input, changes } = buildImportInput(
+            entry,
+            existing,
+            projectId,
+            newProject,
+            tags,
+            defaultDue
+          )
+
+          const existingComments = new Set(existing?.comments?.map((comment) => comment.text))
+          const comments =
+            contexts === 'comments'
+              ? entry.contexts
+                  .map((context) => `@${context}`)
+                  .filter((text) => !existingComments.has(text))
+              : []
+          for (const text of comments) changes.push({ field: 'comment', from: null, to: text })
+
+          if (existing && changes.length === 0) {
+            unchanged++
+            continue
+          }
+
+          imports.push({ id: existing?.id, input, newProject, comments })
+          items.push({
+            action: existing ? 'update' : 'create',
+            line: entry.line,
+            ...(existing ? { id: existing.id, changes } : {}),
+            title: entry.title,
+          })
+        }
+
+        if (!dryRun && imports.length > 0) {
+          const todos = await repo.importTodos(imports, { ignoreBlockers: true })
+          todos.forEach((todo, index) => {
+            items[index].id = todo.id
+          })
+          onImport?.(todos, [...newProjects.values()], execContext.userId)
+        }
+
+        return {
+          success: true,
+          data: {
+            dryRun: dryRun === true,
+            created: items.filter((item) => item.action === 'create').length,
+            updated: items.filter((item) => item.action === 'update').length,
+            unchanged,
+            newProjects: [...newProjects.values()],
+            warnings,
+            items,
+          },
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
@@ -0,0 +1,131 @@
+import type { Tool, ToolResult, ExecutionContext } from '@stina/extension-api/runtime'
+import type { WorkRepository } from '../db/repository.js'
+import type { WorkTrashKind } from '../types.js'
+
+interface TrashItemParams {
+  kind: WorkTrashKind
+  id: string
+}
+
+interface PurgeTrashParams {
+  kind?: WorkTrashKind
+  id?: string
+  all?: boolean
+}
+
+const TRASH_KIND_OPTIONS: WorkTrashKind[] = ['todo', 'project']
+
+const validateKind = (value: unknown): { ok: true } | { ok: false; error: string } => {
+  if (TRASH_KIND_OPTIONS.includes(value as WorkTrashKind)) return { ok: true }
+  return {
+    ok: false,
+    error: `Invalid kind "${String(value)}". Allowed: ${TRASH_KIND_OPTIONS.join(', ')}`,
+  }
+}
+
+export function createListTrashTool(repository: WorkRepository): Tool {
+  return {
+    id: 'work_trash_list',
+    name: 'List Trash',
+    description:
+      'List deleted todos and projects that can still be restored, with when each will be purged.',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+    async execute(_params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const items = await repo.listTrash()
+        return { success: true, data: { count: items.length, items } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createRestoreFromTrashTool(
+  repository: WorkRepository,
+  onRestore?: (kind: WorkTrashKind, id: string, userId: string) => void
+): Tool {
+  return {
+    id: 'work_trash_restore',
+    name: 'Restore From Trash',
+    description:
+      'Restore a deleted todo (with its comments, subitems, tags and dependencies) or project (with the link to its todos).',
+    parameters: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: TRASH_KIND_OPTIONS },
+        id: { type: 'string' },
+      },
+      required: ['kind', 'id'],
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { kind, id } = params as unknown as TrashItemParams
+        const validation = validateKind(kind)
+        if (!validation.ok) return { success: false, error: validation.error }
+        if (!id) return { success: false, error: 'id is required' }
+        const restored = await repo.restoreFromTrash(kind, id)
+        if (!restored) return { success: false, error: 'Item not found in trash' }
+        onRestore?.(kind, id, execContext.userId)
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
+
+export function createPurgeTrashTool(
+  repository: WorkRepository,
+  onChange?: (userId: string) => void
+): Tool {
+  return {
+    id: 'work_trash_purge',
+    name: 'Purge Trash',
+    description:
+      'Permanently delete an item from the trash (kind and id), or everything in it (all: true). This cannot be undone; confirm with the user first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: TRASH_KIND_OPTIONS },
+        id: { type: 'string' },
+        all: { type: 'boolean', description: 'Empty the whole trash.' },
+      },
+    },
+    async execute(params: Record<string, unknown>, execContext: ExecutionContext): Promise<ToolResult> {
+      try {
+        if (!execContext.userId) {
+          return { success: false, error: 'User context required' }
+        }
+        const repo = repository.withUser(execContext.userId)
+        const { kind, id, all } = params as unknown as PurgeTrashParams
+        if (all === true) {
+          if (id) return { success: false, error: 'Give either id or all, not both' }
+          const purged = await repo.emptyTrash()
+          onChange?.(execContext.userId)
+          return { success: true, data: { purged } }
+        }
+        const validation = validateKind(kind)
+        if (!validation.ok) return { success: false, error: validation.error }
+        if (!id) return { success: false, error: 'id is required, or set all to empty the trash' }
+        const purged = await repo.purgeFromTrash(kind as WorkTrashKind, id)
+        if (!purged) return { success: false, error: 'Item not found in trash' }
+        onChange?.(execContext.userId)
+        return { success: true, data: { purged: 1 } }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+      }
+    },
+  }
+}
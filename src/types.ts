@@ -1,9 +1,72 @@
 export type WorkTodoStatus = 'not_started' | 'in_progress' | 'completed' | 'cancelled'
 
+export type WorkTodoPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent'
+
+export type WorkTodoSortField = 'dueAt' | 'priority' | 'title' | 'status' | 'createdAt' | 'updatedAt'
+
+export type WorkSortDirection = 'asc' | 'desc'
+
+export type WorkTagMatch = 'any' | 'all'
+
+export type WorkSearchKind = 'todo' | 'comment' | 'subitem'
+
+export type WorkActivityEntityType = 'todo' | 'project'
+
+export type WorkActivityAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'deleted'
+  | 'restored'
+  | 'purged'
+  | 'archived'
+  | 'unarchived'
+  | 'comment_added'
+  | 'comment_deleted'
+  | 'subitem_added'
+  | 'subitem_updated'
+  | 'subitem_deleted'
+  | 'subitems_reordered'
+
+export type WorkTrashKind = 'todo' | 'project'
+
+/** What triggered a change: an assistant tool, a panel action or a reminder firing. */
+export type WorkActivitySource = 'tool' | 'panel' | 'reminder'
+
+export type WorkSnoozeOption = '10m' | '1h' | 'tomorrow'
+
+export type WorkRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+export type WorkWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+/**
+ * Recurrence rule for a todo, mirroring the FREQ/INTERVAL/BYDAY/UNTIL/COUNT parts of RRULE.
+ * `count` is the number of occurrences remaining including the current one.
+ */
+export interface WorkTodoRecurrence {
+  frequency: WorkRecurrenceFrequency
+  interval: number
+  weekdays?: WorkWeekday[]
+  until?: string | null
+  count?: number | null
+}
+
+export type WorkProjectStatus = 'active' | 'on_hold' | 'done'
+
 export interface WorkProject {
   id: string
   name: string
   description?: string
+  icon: string
+  /** Hex color, e.g. #3b82f6. */
+  color: string | null
+  status: WorkProjectStatus
+  /** YYYY-MM-DD */
+  startDate: string | null
+  /** YYYY-MM-DD */
+  deadline: string | null
+  /** Set while the project is archived. */
+  archivedAt?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -11,6 +74,35 @@ export interface WorkProject {
 export interface WorkProjectInput {
   name?: string
   description?: string
+  icon?: string
+  /** null clears the color. */
+  color?: string | null
+  status?: WorkProjectStatus
+  /** null clears the start date. */
+  startDate?: string | null
+  /** null clears the deadline. */
+  deadline?: string | null
+}
+
+export interface WorkTag {
+  id: string
+  name: string
+  /** Number of todos carrying the tag. */
+  todoCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WorkTrashItem {
+  kind: WorkTrashKind
+  id: string
+  /** Todo title or project name. */
+  title: string
+  /** Project of a trashed todo. */
+  projectId?: string | null
+  deletedAt: string
+  /** When the item is purged automatically; null if retention is off. */
+  purgeAt: string | null
 }
 
 export interface WorkSubItem {
@@ -49,11 +141,25 @@ export interface WorkTodo {
   description?: string
   icon: string
   status: WorkTodoStatus
+  priority: WorkTodoPriority
   dueAt: string
   date: string
   time: string
   allDay: boolean
   reminderMinutes?: number | null
+  /** Reminder offsets in minutes before due; overrides reminderMinutes when set. */
+  reminders?: number[] | null
+  recurrence?: WorkTodoRecurrence | null
+  nextOccurrenceId?: string | null
+  snoozedUntil?: string | null
+  /** Number of overdue follow-ups sent for the current due date. */
+  overdueFollowUps?: number
+  /** Tag names, sorted alphabetically. */
+  tags?: string[]
+  /** IDs of the todos this todo depends on. */
+  blockedBy?: string[]
+  /** True while any todo in blockedBy is neither completed nor cancelled. */
+  blocked?: boolean
   createdAt: string
   updatedAt: string
   comments?: WorkComment[]
@@ -66,39 +172,265 @@ export interface WorkTodoInput {
   description?: string
   icon?: string
   status?: WorkTodoStatus
+  priority?: WorkTodoPriority
   dueAt?: string
   date?: string
   time?: string
   allDay?: boolean
   reminderMinutes?: number | null
+  reminders?: number[] | null
+  recurrence?: WorkTodoRecurrence | null
+  /** Replaces the todo's tags; unknown tag names are created. */
+  tags?: string[]
+}
+
+export interface UpsertTodoOptions {
+  /** Allows completing a todo whose blockers are still active. */
+  ignoreBlockers?: boolean
+}
+
+/** One todo to create or update in a bulk import. */
+export interface WorkTodoImport {
+  /** The todo to update; a new todo is created without it. */
+  id?: string
+  input: WorkTodoInput
+  /**
+   * Name of a project to create for the todo, in the same transaction. Entries with the same
+   * name share one new project.
+   */
+  newProject?: string
+  /** UID of the calendar entry the todo comes from, used to match later imports. */
+  icalUid?: string
+  /** Subitems to append to the todo, in order. */
+  subItems?: WorkSubItemImport[]
+  /** Comment texts to add to the todo. */
+  comments?: string[]
+}
+
+export interface WorkSubItemImport {
+  text: string
+  completed: boolean
 }
 
 export interface WorkSettings {
   defaultReminderMinutes: number | null
+  /** Default reminder offsets in minutes; overrides defaultReminderMinutes when non-empty. */
+  defaultReminders: number[]
   allDayReminderTime: string | null
   reminderLocale: string | null
+  digestEnabled: boolean
+  digestTime: string | null
+  /** Minutes after the due time before the first overdue follow-up; null disables them. */
+  overdueFollowUpMinutes: number | null
+  overdueFollowUpLimit: number
+  /** IANA time zone overriding the user's profile time zone. */
+  timezone: string | null
+  /** Days before trashed todos and projects are purged; null keeps them until purged by hand. */
+  trashRetentionDays: number | null
+}
+
+export type WorkBackupMode = 'merge' | 'replace'
+
+/** A todo as stored in a backup, with its tags and blockers by ID. */
+export interface WorkBackupTodo {
+  id: string
+  projectId: string | null
+  title: string
+  description: string | null
+  icon: string
+  status: WorkTodoStatus
+  priority: WorkTodoPriority
+  dueAt: string
+  date: string
+  time: string
+  allDay: boolean
+  reminderMinutes: number | null
+  reminders: number[] | null
+  recurrence: WorkTodoRecurrence | null
+  nextOccurrenceId: string | null
+  snoozedUntil: string | null
+  overdueFollowUps: number
+  icalUid: string | null
+  tags: string[]
+  blockedBy: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WorkBackupSubItem {
+  id: string
+  todoId: string
+  text: string
+  completedAt: string | null
+  sortOrder: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WorkBackupComment {
+  id: string
+  todoId: string
+  text: string
+  createdAt: string
+}
+
+export interface WorkBackupGroupState {
+  /** A project ID, or the group of todos without a project. */
+  groupId: string
+  collapsed: boolean
+}
+
+/**
+ * Everything in a user's workspace except the trash and the activity log.
+ */
+export interface WorkBackup {
+  format: 'work-manager-backup'
+  version: number
+  exportedAt: string
+  projects: WorkProject[]
+  todos: WorkBackupTodo[]
+  subItems: WorkBackupSubItem[]
+  comments: WorkBackupComment[]
+  groupStates: WorkBackupGroupState[]
+  settings: WorkSettingsUpdate
+}
+
+export interface WorkBackupImportResult {
+  mode: WorkBackupMode
+  projects: number
+  todos: number
+  subItems: number
+  comments: number
+  /** Records given a new ID because theirs was already taken. */
+  remapped: number
+  /** Todos removed by a replace, whose reminders must be cancelled. */
+  removedTodoIds: string[]
 }
 
 export interface WorkSettingsUpdate {
   defaultReminderMinutes?: number | null
+  defaultReminders?: number[]
   allDayReminderTime?: string | null
   reminderLocale?: string | null
+  digestEnabled?: boolean
+  digestTime?: string | null
+  overdueFollowUpMinutes?: number | null
+  overdueFollowUpLimit?: number
+  timezone?: string | null
+  trashRetentionDays?: number | null
+}
+
+export interface WorkFieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface WorkActivity {
+  id: string
+  entityType: WorkActivityEntityType
+  entityId: string
+  action: WorkActivityAction
+  /** ID of the comment or subitem an action refers to. */
+  subjectId: string | null
+  changes: WorkFieldChange[]
+  source: WorkActivitySource
+  createdAt: string
+}
+
+export interface ListActivityOptions {
+  entityType?: WorkActivityEntityType
+  entityId?: string
+  actions?: WorkActivityAction[]
+  /** Only activity at or after this instant (ISO 8601). */
+  since?: string
+  limit?: number
+  /** Continues after the page that returned this cursor. */
+  cursor?: string
+}
+
+/**
+ * A page of list results. Pass nextCursor as `cursor` to fetch the following page; unlike
+ * offsets, cursors neither skip nor repeat rows when items change between pages.
+ */
+export interface WorkPage<T> {
+  items: T[]
+  /** Number of items matching the filters across all pages. */
+  total: number
+  hasMore: boolean
+  nextCursor: string | null
 }
 
 export interface ListProjectsOptions {
   query?: string
+  status?: WorkProjectStatus
+  includeArchived?: boolean
   limit?: number
   offset?: number
+  /** Continues after the page that returned this cursor; offset is ignored. */
+  cursor?: string
 }
 
 export interface ListTodosOptions {
   query?: string
   projectId?: string
+  /** Matches todos in any of these projects; combined with projectId if both are given. */
+  projectIds?: string[]
   status?: WorkTodoStatus
+  /** Matches todos with any of these statuses. */
+  statuses?: WorkTodoStatus[]
+  priority?: WorkTodoPriority
+  tags?: string[]
+  /** any (default) matches todos with at least one of the tags; all requires every tag. */
+  tagMatch?: WorkTagMatch
+  /** Due at or after this instant (ISO 8601). */
+  dueAfter?: string
+  /** Due before this instant (ISO 8601). */
+  dueBefore?: string
+  /** true: open todos past their due date; false: everything else. */
+  overdue?: boolean
+  allDay?: boolean
+  /**
+   * Includes todos of archived projects. They are also included when filtering by
+   * projectId or projectIds.
+   */
+  includeArchived?: boolean
+  /** Updated at or after this instant (ISO 8601). */
+  updatedSince?: string
+  /** Defaults to dueAt. Ties are broken by due date. */
+  sort?: WorkTodoSortField
+  /** Defaults to desc for priority (most urgent first) and asc otherwise. */
+  sortDirection?: WorkSortDirection
+  limit?: number
+  offset?: number
+  /** Continues after the page that returned this cursor; offset is ignored. */
+  cursor?: string
+}
+
+export interface SearchOptions {
+  query: string
+  /** Restricts hits to these kinds; all kinds by default. */
+  kinds?: WorkSearchKind[]
   limit?: number
   offset?: number
 }
 
+export interface WorkSearchHit {
+  kind: WorkSearchKind
+  /** ID of the matching todo, comment or subitem. */
+  id: string
+  snippet: string
+  /** Relevance score; lower is more relevant. */
+  rank: number
+  todo: {
+    id: string
+    title: string
+    status: WorkTodoStatus
+    dueAt: string
+  }
+  project: { id: string; name: string } | null
+}
+
 export interface WorkTodoPanelItem {
   id: string
   title: string
@@ -107,18 +439,32 @@ export interface WorkTodoPanelItem {
   status: WorkTodoStatus
   statusLabel: string
   statusVariant: 'default' | 'primary' | 'success' | 'warning' | 'danger'
+  priority: WorkTodoPriority
+  priorityLabel: string
+  priorityVariant: 'default' | 'primary' | 'success' | 'warning' | 'danger'
   date: string
   time: string
   dateTime: string
   allDay: boolean
   commentCount: number
+  blocked: boolean
+  blockedLabel: string
+  tags: Array<{ id: string; name: string }>
   comments: Array<{ id: string; text: string; createdAt: string }>
-  subItems: Array<{ id: string; text: string; completedAt: string | null }>
+  subItems: Array<{ id: string; text: string; completed: boolean; completedAt: string | null }>
 }
 
 export interface WorkPanelGroup {
   id: string
   title: string
+  icon: string
+  color: string | null
+  /** The project status; null for the group of todos without a project. */
+  status: WorkProjectStatus | null
+  statusLabel: string
+  statusVariant: 'default' | 'primary' | 'success' | 'warning' | 'danger'
+  startDate: string | null
+  deadline: string | null
   collapsed: boolean
   items: WorkTodoPanelItem[]
 }